@@ -0,0 +1,306 @@
+/**
+ * Authenticated calls to the Anthropic API with Claude Code OAuth headers
+ */
+
+import { APICallError } from '@ai-sdk/provider';
+
+import { CredentialManager } from './credentials.js';
+import { createAPICallError, getResponseHeaders, parseAnthropicError } from './errors.js';
+import { resolveLogger, type Logger, type LogLevel } from './logger.js';
+import { getConversationKey, type CredentialPool } from './pool.js';
+import { parseQuotaHeaders, QuotaTracker, type QuotaSnapshot } from './quota.js';
+import { SSEDecoder } from './sse.js';
+import { emitHook, withSpan, type ClaudeCodeRequestHooks, type Tracer } from './telemetry.js';
+import type { ResponseCache } from './cache.js';
+import type { RequestRecorder } from './recording.js';
+import type { UsageLedger } from './usage.js';
+
+// Claude Code specific headers - from pi-ai's anthropic.js
+export const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const CLAUDE_CODE_VERSION = '2.1.0'; // Mimic recent Claude Code version
+const ANTHROPIC_BETA_FEATURES = [
+  'claude-code-20250219',
+  'oauth-2025-04-20',
+  'fine-grained-tool-streaming-2025-05-14'
+];
+
+export function getAuthHeaders(
+  accessToken: string,
+  extraHeaders?: Record<string, string>,
+  betas: Iterable<string> = [],
+): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'Authorization': `Bearer ${accessToken}`,
+    'anthropic-version': ANTHROPIC_API_VERSION,
+    'anthropic-beta': [...new Set([...ANTHROPIC_BETA_FEATURES, ...betas])].join(','),
+    'anthropic-dangerous-direct-browser-access': 'true',
+    'user-agent': `claude-cli/${CLAUDE_CODE_VERSION} (external, cli)`,
+    'x-app': 'cli',
+    ...extraHeaders,
+  };
+}
+
+/**
+ * Connection settings shared by everything a provider instance calls
+ */
+export interface ClaudeCodeApiConfig {
+  baseURL: string;
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  credentials: CredentialManager;
+  quota: QuotaTracker;
+  /** Accounts to spread requests over. When set, `credentials` is not used for calls */
+  pool?: CredentialPool;
+  logger: Logger;
+  hooks?: ClaudeCodeRequestHooks;
+  /** OpenTelemetry tracer for HTTP call spans */
+  tracer?: Tracer;
+  /** Records model calls and enforces token budgets */
+  usage?: UsageLedger;
+  /** Records responses to disk or replays them without network access */
+  recorder?: RequestRecorder;
+  /** Serves identical model calls from earlier responses */
+  cache?: ResponseCache;
+}
+
+/**
+ * Fill in defaults for a partial API config
+ */
+export function resolveApiConfig(
+  config: Partial<Omit<ClaudeCodeApiConfig, 'logger'>> & { logger?: Logger | LogLevel },
+): ClaudeCodeApiConfig {
+  const logger = resolveLogger(config.logger);
+  return {
+    ...config,
+    baseURL: (config.baseURL ?? DEFAULT_BASE_URL).replace(/\/$/, ''),
+    credentials: config.credentials ?? new CredentialManager(undefined, { logger, tracer: config.tracer }),
+    quota: config.quota ?? new QuotaTracker(undefined, logger),
+    logger,
+  };
+}
+
+export interface ApiCallOptions {
+  /** Path below the base URL, e.g. '/messages' */
+  path: string;
+  method?: 'GET' | 'POST' | 'DELETE';
+  body?: unknown;
+  betas?: Iterable<string>;
+  headers?: Record<string, string>;
+  abortSignal?: AbortSignal;
+}
+
+type ApiCallResult = {
+  response: Response;
+  responseHeaders: Record<string, string>;
+  quota: QuotaSnapshot | undefined;
+};
+
+/**
+ * Call the API with a valid access token. On 401 the credentials are re-read and
+ * refreshed once (the token may have been revoked or rotated elsewhere) before a
+ * single retry. Failed responses throw APICallError.
+ *
+ * With a credential pool, a rate-limited account is put on cooldown and the call
+ * is retried on the next account the pool picks. That covers 429 responses and
+ * streams whose first event is a `rate_limit_error`; once a stream has started
+ * it can't be retried. Overload (529) affects every account and doesn't fail over.
+ *
+ * With a recorder, responses are saved in record mode, and in replay mode come
+ * from the recordings without credentials or network access.
+ */
+export async function callApi(config: ClaudeCodeApiConfig, options: ApiCallOptions): Promise<ApiCallResult> {
+  const { recorder } = config;
+  if (!recorder || recorder.mode === 'passthrough') {
+    return callAccounts(config, options);
+  }
+
+  if (recorder.mode === 'replay') {
+    const response = await recorder.replay(options, options.abortSignal);
+    if (!response.ok) {
+      throw await createAPICallError({ response, url: getUrl(config, options.path), requestBodyValues: options.body });
+    }
+    const responseHeaders = getResponseHeaders(response);
+    return { response, responseHeaders, quota: config.quota.update(responseHeaders) };
+  }
+
+  try {
+    const result = await callAccounts(config, options);
+    const streamed = (options.body as { stream?: unknown } | undefined)?.stream === true;
+    return { ...result, response: await recorder.record(options, result.response, streamed) };
+  } catch (error) {
+    if (APICallError.isInstance(error)) {
+      await recorder.recordError(options, error);
+    }
+    throw error;
+  }
+}
+
+function getUrl(config: ClaudeCodeApiConfig, path: string): string {
+  return path.startsWith('http') ? path : `${config.baseURL}${path}`;
+}
+
+async function callAccounts(config: ClaudeCodeApiConfig, options: ApiCallOptions): Promise<ApiCallResult> {
+  const { pool } = config;
+  if (!pool) {
+    return callWithCredentials(config, config.credentials, options);
+  }
+
+  const conversationKey = getConversationKey(options.body);
+  const tried = new Set<string>();
+  let lastError: unknown;
+
+  for (let account = pool.select(conversationKey); account; account = pool.select(conversationKey, tried)) {
+    tried.add(account.id);
+
+    try {
+      const result = await callWithCredentials(config, account.credentials, options);
+      if ((options.body as { stream?: unknown } | undefined)?.stream === true) {
+        result.response = await checkStreamStart(result, getUrl(config, options.path), options.body);
+      }
+      pool.record(account, result.quota);
+      return result;
+    } catch (error) {
+      if (!APICallError.isInstance(error) || error.statusCode !== 429) {
+        throw error;
+      }
+      pool.markLimited(account, parseQuotaHeaders(error.responseHeaders ?? {}));
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Read a stream up to its first event. A rate limit can arrive as an `error` event on a
+ * 200 response; it is thrown as the equivalent 429 APICallError. Otherwise returns a
+ * response that replays the bytes read.
+ */
+async function checkStreamStart(result: ApiCallResult, url: string, requestBodyValues: unknown): Promise<Response> {
+  const { response, responseHeaders } = result;
+  if (!response.body) return response;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const sse = new SSEDecoder();
+  const chunks: Uint8Array[] = [];
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    chunks.push(chunk.value);
+    const [event] = sse.push(decoder.decode(chunk.value, { stream: true }));
+    if (!event) continue;
+
+    const data = event.event === 'error' ? parseAnthropicError(event.data) : undefined;
+    if (data?.type === 'rate_limit_error') {
+      await reader.cancel();
+      throw new APICallError({
+        message: `Anthropic API error (429 ${data.type}): ${data.message}`,
+        url,
+        requestBodyValues,
+        statusCode: 429,
+        responseHeaders,
+        responseBody: event.data,
+        data,
+        isRetryable: true,
+      });
+    }
+    break;
+  }
+
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+    },
+    async pull(controller) {
+      const chunk = await reader.read();
+      if (chunk.done) {
+        controller.close();
+      } else {
+        controller.enqueue(chunk.value);
+      }
+    },
+    cancel: reason => reader.cancel(reason),
+  }), { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+async function callWithCredentials(
+  config: ClaudeCodeApiConfig,
+  manager: CredentialManager,
+  options: ApiCallOptions,
+): Promise<ApiCallResult> {
+  const url = getUrl(config, options.path);
+  const method = options.method ?? 'POST';
+  const { model } = (options.body ?? {}) as { model?: unknown };
+  const attributes = {
+    'http.request.method': method,
+    'url.full': url,
+    ...(typeof model === 'string' ? { 'gen_ai.request.model': model } : {}),
+  };
+
+  return withSpan(config.tracer, 'claude-code-oauth.http', attributes, async span => {
+    const started = Date.now();
+    let attempt = 0;
+
+    const send = (accessToken: string) => {
+      const headers = getAuthHeaders(accessToken, { ...config.headers, ...options.headers }, options.betas);
+      emitHook(config.hooks, 'onRequest', { url, method, headers, body: options.body, attempt: ++attempt }, config.logger);
+
+      return (config.fetch ?? fetch)(url, {
+        method,
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: options.abortSignal,
+      });
+    };
+
+    try {
+      let credentials = await manager.getValidCredentials();
+      let response = await send(credentials.claudeAiOauth.accessToken);
+
+      if (response.status === 401) {
+        await response.body?.cancel();
+        config.logger.info(`401 from ${url}, refreshing the token and retrying`);
+        credentials = await manager.refreshToken(credentials);
+        response = await send(credentials.claudeAiOauth.accessToken);
+      }
+
+      span?.setAttribute('http.response.status_code', response.status);
+      const responseHeaders = getResponseHeaders(response);
+      const quota = config.quota.update(responseHeaders, credentials);
+
+      if (!response.ok) {
+        throw await createAPICallError({ response, url, requestBodyValues: options.body });
+      }
+
+      const durationMs = Date.now() - started;
+      config.logger.debug(`${method} ${url} ${response.status} in ${durationMs}ms`);
+      emitHook(config.hooks, 'onResponse', {
+        url,
+        method,
+        body: options.body,
+        status: response.status,
+        responseHeaders,
+        durationMs,
+        quota,
+      }, config.logger);
+
+      return { response, responseHeaders, quota };
+    } catch (error) {
+      const durationMs = Date.now() - started;
+      const status = APICallError.isInstance(error) ? error.statusCode : undefined;
+      config.logger.debug(`${method} ${url} failed in ${durationMs}ms`, { status, error });
+      emitHook(config.hooks, 'onError', {
+        url,
+        method,
+        body: options.body,
+        error: error instanceof Error ? error : { name: 'Error', message: String(error) },
+        status,
+        durationMs,
+      }, config.logger);
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,347 @@
+/**
+ * Message Batches API client
+ *
+ * Batched requests are built with the same request builder as doGenerate, and
+ * results are converted to the same output shape.
+ */
+
+import {
+  InvalidArgumentError,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1CallWarning,
+  type LanguageModelV1Prompt,
+} from '@ai-sdk/provider';
+
+import { callApi, type ClaudeCodeApiConfig } from './api.js';
+import { normalizePrompt } from './convert-prompt.js';
+import type { AnthropicErrorData } from './errors.js';
+import {
+  convertMessageResponse,
+  JSON_TOOL_NAME,
+  readJsonOutput,
+  type AnthropicMessageResponse,
+  type ClaudeCodeGenerateOutput,
+  type ClaudeCodeLanguageModel,
+  type ClaudeCodeModelId,
+  type ClaudeCodeModelSettings,
+  type JsonOutput,
+} from './provider.js';
+
+/**
+ * One request of a batch
+ */
+export interface ClaudeCodeBatchRequest
+  extends Partial<Omit<LanguageModelV1CallOptions, 'prompt' | 'mode' | 'inputFormat' | 'abortSignal' | 'headers'>> {
+  /** Your ID for matching results to requests */
+  customId: string;
+  modelId: ClaudeCodeModelId;
+  settings?: ClaudeCodeModelSettings;
+  /** A single user message, or a full AI SDK prompt */
+  prompt: string | LanguageModelV1Prompt;
+  /** System prompt, sent before the prompt's messages */
+  system?: string;
+  /** Tools and tool choice, as in doGenerate. Defaults to no tools */
+  mode?: LanguageModelV1CallOptions['mode'];
+}
+
+export interface ClaudeCodeBatch {
+  id: string;
+  processingStatus: 'in_progress' | 'canceling' | 'ended';
+  requestCounts: {
+    processing: number;
+    succeeded: number;
+    errored: number;
+    canceled: number;
+    expired: number;
+  };
+  createdAt: Date;
+  expiresAt: Date;
+  endedAt: Date | null;
+  cancelInitiatedAt: Date | null;
+  archivedAt: Date | null;
+  resultsUrl: string | null;
+}
+
+export interface ClaudeCodeBatchResult {
+  customId: string;
+  result:
+    | { type: 'succeeded'; output: ClaudeCodeGenerateOutput }
+    | { type: 'errored'; error: AnthropicErrorData }
+    | { type: 'canceled' }
+    | { type: 'expired' };
+}
+
+export interface ClaudeCodeBatchList {
+  data: ClaudeCodeBatch[];
+  hasMore: boolean;
+  firstId: string | null;
+  lastId: string | null;
+}
+
+export interface ClaudeCodeBatches {
+  /**
+   * Create a batch. Warnings from building each request are returned by custom ID.
+   */
+  create(
+    requests: ClaudeCodeBatchRequest[],
+    options?: { abortSignal?: AbortSignal },
+  ): Promise<ClaudeCodeBatch & { warnings: Record<string, LanguageModelV1CallWarning[]> }>;
+
+  /**
+   * Get the current status of a batch
+   */
+  retrieve(batchId: string, options?: { abortSignal?: AbortSignal }): Promise<ClaudeCodeBatch>;
+
+  /**
+   * Stream the results of an ended batch, one per request
+   */
+  results(batchId: string, options?: { abortSignal?: AbortSignal }): AsyncIterable<ClaudeCodeBatchResult>;
+
+  /**
+   * Cancel a batch that is still processing
+   */
+  cancel(batchId: string, options?: { abortSignal?: AbortSignal }): Promise<ClaudeCodeBatch>;
+
+  /**
+   * List batches, most recent first
+   */
+  list(options?: {
+    limit?: number;
+    beforeId?: string;
+    afterId?: string;
+    abortSignal?: AbortSignal;
+  }): Promise<ClaudeCodeBatchList>;
+}
+
+interface AnthropicBatch {
+  id: string;
+  processing_status: ClaudeCodeBatch['processingStatus'];
+  request_counts: ClaudeCodeBatch['requestCounts'];
+  created_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  cancel_initiated_at: string | null;
+  archived_at: string | null;
+  results_url: string | null;
+}
+
+type AnthropicBatchResultLine = {
+  custom_id: string;
+  result:
+    | { type: 'succeeded'; message: AnthropicMessageResponse }
+    | { type: 'errored'; error: { type: 'error'; error: AnthropicErrorData } | AnthropicErrorData }
+    | { type: 'canceled' }
+    | { type: 'expired' };
+};
+
+function toDate(value: string | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function convertBatch(batch: AnthropicBatch): ClaudeCodeBatch {
+  return {
+    id: batch.id,
+    processingStatus: batch.processing_status,
+    requestCounts: batch.request_counts,
+    createdAt: new Date(batch.created_at),
+    expiresAt: new Date(batch.expires_at),
+    endedAt: toDate(batch.ended_at),
+    cancelInitiatedAt: toDate(batch.cancel_initiated_at),
+    archivedAt: toDate(batch.archived_at),
+    resultsUrl: batch.results_url,
+  };
+}
+
+/**
+ * How to read the JSON of an object-json request, as doGenerate does
+ */
+interface BatchJsonOutput {
+  jsonOutput: JsonOutput;
+  repair: boolean;
+}
+
+const MAX_CUSTOM_ID_LENGTH = 64;
+// Suffix of the custom_id sent for an object-json request, so results can be read in any process
+const JSON_OUTPUT_SUFFIX = /__json-(tool|object|array|text)(-raw)?$/;
+
+/**
+ * The custom_id to send: the caller's, plus how to read the JSON of an object-json request
+ */
+function encodeCustomId(customId: string, json: BatchJsonOutput | undefined): string {
+  if (!json) {
+    if (JSON_OUTPUT_SUFFIX.test(customId)) {
+      throw new InvalidArgumentError({
+        argument: 'customId',
+        message: `customId ${customId} ends like the suffix marking object-json requests`,
+      });
+    }
+    return customId;
+  }
+
+  const { jsonOutput, repair } = json;
+  const strategy = jsonOutput.type === 'tool' ? 'tool'
+    : jsonOutput.prefill === '{' ? 'object'
+      : jsonOutput.prefill === '[' ? 'array'
+        : 'text';
+  const suffix = `__json-${strategy}${repair ? '' : '-raw'}`;
+
+  if (customId.length + suffix.length > MAX_CUSTOM_ID_LENGTH) {
+    throw new InvalidArgumentError({
+      argument: 'customId',
+      message: `customId ${customId} is too long for an object-json request: at most ${MAX_CUSTOM_ID_LENGTH - suffix.length} characters`,
+    });
+  }
+  return `${customId}${suffix}`;
+}
+
+function decodeCustomId(customId: string): { customId: string; json?: BatchJsonOutput } {
+  const match = JSON_OUTPUT_SUFFIX.exec(customId);
+  if (!match) return { customId };
+
+  const [suffix, strategy, raw] = match;
+  const jsonOutput: JsonOutput = strategy === 'tool'
+    ? { type: 'tool', toolName: JSON_TOOL_NAME }
+    : { type: 'text', prefill: strategy === 'object' ? '{' : strategy === 'array' ? '[' : '' };
+
+  return { customId: customId.slice(0, -suffix.length), json: { jsonOutput, repair: !raw } };
+}
+
+function convertResultLine(line: AnthropicBatchResultLine): ClaudeCodeBatchResult {
+  const { result } = line;
+  const { customId, json } = decodeCustomId(line.custom_id);
+
+  if (result.type === 'succeeded') {
+    const output = convertMessageResponse(result.message);
+    return {
+      customId,
+      result: { type: 'succeeded', output: json ? readJsonOutput(output, json.jsonOutput, json.repair) : output },
+    };
+  }
+
+  if (result.type === 'errored') {
+    // Errors are wrapped in an error response object
+    const error = 'error' in result.error ? result.error.error : result.error;
+    return { customId, result: { type: 'errored', error } };
+  }
+
+  return { customId, result: { type: result.type } };
+}
+
+/**
+ * Create a batches client that shares a provider's credentials and connection settings
+ */
+export function createBatches(
+  config: ClaudeCodeApiConfig,
+  createModel: (modelId: ClaudeCodeModelId, settings?: ClaudeCodeModelSettings) => ClaudeCodeLanguageModel,
+): ClaudeCodeBatches {
+  const retrieve = async (batchId: string, options: { abortSignal?: AbortSignal } = {}) => {
+    const { response } = await callApi(config, {
+      path: `/messages/batches/${encodeURIComponent(batchId)}`,
+      method: 'GET',
+      abortSignal: options.abortSignal,
+    });
+    return convertBatch(await response.json() as AnthropicBatch);
+  };
+
+  return {
+    async create(requests, options = {}) {
+      const betas = new Set<string>();
+      const warnings: Record<string, LanguageModelV1CallWarning[]> = {};
+
+      const batchRequests = requests.map(request => {
+        const { customId, modelId, settings, prompt, system, mode, ...callSettings } = request;
+        const built = createModel(modelId, settings).buildRequest({
+          ...callSettings,
+          inputFormat: typeof prompt === 'string' ? 'prompt' : 'messages',
+          mode: mode ?? { type: 'regular' },
+          prompt: normalizePrompt(prompt, system),
+        });
+
+        built.betas.forEach(beta => betas.add(beta));
+        warnings[customId] = built.warnings;
+        const json = built.jsonOutput && { jsonOutput: built.jsonOutput, repair: settings?.repairJson ?? true };
+        return { custom_id: encodeCustomId(customId, json), params: built.body };
+      });
+
+      const { response } = await callApi(config, {
+        path: '/messages/batches',
+        body: { requests: batchRequests },
+        betas,
+        abortSignal: options.abortSignal,
+      });
+
+      return { ...convertBatch(await response.json() as AnthropicBatch), warnings };
+    },
+
+    retrieve,
+
+    async *results(batchId, options = {}) {
+      const batch = await retrieve(batchId, options);
+      const { response } = await callApi(config, {
+        path: batch.resultsUrl ?? `/messages/batches/${encodeURIComponent(batchId)}/results`,
+        method: 'GET',
+        abortSignal: options.abortSignal,
+      });
+
+      // Results are JSONL, one line per request
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+          const lines = buffer.split('\n');
+          buffer = done ? '' : lines.pop() ?? '';
+
+          for (const line of lines) {
+            if (line.trim()) {
+              yield convertResultLine(JSON.parse(line) as AnthropicBatchResultLine);
+            }
+          }
+
+          if (done) break;
+        }
+      } finally {
+        reader.releaseLock();
+      }
+    },
+
+    async cancel(batchId, options = {}) {
+      const { response } = await callApi(config, {
+        path: `/messages/batches/${encodeURIComponent(batchId)}/cancel`,
+        abortSignal: options.abortSignal,
+      });
+      return convertBatch(await response.json() as AnthropicBatch);
+    },
+
+    async list(options = {}) {
+      const query = new URLSearchParams();
+      if (options.limit !== undefined) query.set('limit', String(options.limit));
+      if (options.beforeId) query.set('before_id', options.beforeId);
+      if (options.afterId) query.set('after_id', options.afterId);
+
+      const { response } = await callApi(config, {
+        path: `/messages/batches${query.size > 0 ? `?${query}` : ''}`,
+        method: 'GET',
+        abortSignal: options.abortSignal,
+      });
+
+      const data = await response.json() as {
+        data: AnthropicBatch[];
+        has_more: boolean;
+        first_id: string | null;
+        last_id: string | null;
+      };
+
+      return {
+        data: data.data.map(convertBatch),
+        hasMore: data.has_more,
+        firstId: data.first_id,
+        lastId: data.last_id,
+      };
+    },
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Response cache for identical model calls
+ *
+ * Entries are keyed on the fully built request body (without `stream`) and
+ * hold doGenerate output, so a cached generate call can answer a stream call
+ * and the other way around.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { LanguageModelV1StreamPart } from '@ai-sdk/provider';
+
+import type { Logger } from './logger.js';
+import type { ClaudeCodeGenerateOutput } from './provider.js';
+import { stableStringify } from './recording.js';
+
+/**
+ * A cached model response
+ */
+export interface ClaudeCodeCacheEntry {
+  output: ClaudeCodeGenerateOutput;
+  response?: { id?: string; modelId?: string };
+  /** Epoch milliseconds when the entry was stored */
+  createdAt: number;
+  /** Epoch milliseconds after which the entry is ignored */
+  expiresAt?: number;
+}
+
+/**
+ * Where cache entries are kept
+ */
+export interface ResponseCacheStore {
+  get(key: string): ClaudeCodeCacheEntry | undefined | Promise<ClaudeCodeCacheEntry | undefined>;
+  set(key: string, entry: ClaudeCodeCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  /** A custom store. Defaults to an in-memory LRU, or files in `dir` when set */
+  store?: ResponseCacheStore;
+  /** Directory for an on-disk cache, shared by processes and kept across restarts */
+  dir?: string;
+  /** Entries kept by the in-memory LRU. Defaults to 1000 */
+  maxEntries?: number;
+  /** How long entries stay valid, in milliseconds. Defaults to no expiry */
+  ttlMs?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Create an in-memory store that evicts the least recently used entry when full
+ */
+export function createMemoryCacheStore(maxEntries: number = DEFAULT_MAX_ENTRIES): ResponseCacheStore {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  const entries = new Map<string, ClaudeCodeCacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a store with one JSON file per entry in a directory
+ */
+export function createFileCacheStore(dir: string): ResponseCacheStore {
+  const pathOf = (key: string) => join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(pathOf(key), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+    async set(key, entry) {
+      // Write to a temp file and rename, so readers never see a partial entry
+      const tempPath = `${pathOf(key)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+      await mkdir(dir, { recursive: true });
+      await writeFile(tempPath, JSON.stringify(entry));
+      await rename(tempPath, pathOf(key));
+    },
+    async delete(key) {
+      await unlink(pathOf(key)).catch(() => {});
+    },
+  };
+}
+
+/**
+ * Stream parts that replay a cached output: reasoning, text, sources and tool calls, then the finish
+ */
+export function streamCachedOutput(entry: ClaudeCodeCacheEntry): ReadableStream<LanguageModelV1StreamPart> {
+  const { output, response } = entry;
+  const parts: LanguageModelV1StreamPart[] = [{ type: 'response-metadata', ...response }];
+
+  for (const reasoning of output.reasoning ?? []) {
+    if (reasoning.type === 'redacted') {
+      parts.push({ type: 'redacted-reasoning', data: reasoning.data });
+      continue;
+    }
+    parts.push({ type: 'reasoning', textDelta: reasoning.text });
+    if (reasoning.signature) {
+      parts.push({ type: 'reasoning-signature', signature: reasoning.signature });
+    }
+  }
+  if (output.text) {
+    parts.push({ type: 'text-delta', textDelta: output.text });
+  }
+  for (const source of output.sources ?? []) {
+    parts.push({ type: 'source', source });
+  }
+  for (const toolCall of output.toolCalls ?? []) {
+    parts.push({ type: 'tool-call', ...toolCall });
+  }
+  parts.push({
+    type: 'finish',
+    finishReason: output.finishReason,
+    usage: output.usage,
+    providerMetadata: output.providerMetadata,
+  });
+
+  return new ReadableStream({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(part));
+      controller.close();
+    },
+  });
+}
+
+/**
+ * Pass stream parts through and rebuild the doGenerate output from them. The stream
+ * closes once `onComplete` settles; it is not called for streams that fail or are cancelled.
+ */
+export function collectStreamOutput(
+  onComplete: (entry: Pick<ClaudeCodeCacheEntry, 'output' | 'response'>) => Promise<void>,
+): TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart> {
+  let text: string | undefined;
+  const reasoning: NonNullable<ClaudeCodeGenerateOutput['reasoning']> = [];
+  const toolCalls: NonNullable<ClaudeCodeGenerateOutput['toolCalls']> = [];
+  const sources: NonNullable<ClaudeCodeGenerateOutput['sources']> = [];
+  let response: ClaudeCodeCacheEntry['response'];
+  let failed = false;
+  let completion: Promise<void> | undefined;
+
+  return new TransformStream({
+    transform(part, controller) {
+      controller.enqueue(part.type === 'finish' ? withCacheFlag(part, false) : part);
+
+      switch (part.type) {
+        case 'response-metadata':
+          response = { id: part.id, modelId: part.modelId };
+          break;
+        case 'text-delta':
+          text = (text ?? '') + part.textDelta;
+          break;
+        case 'reasoning': {
+          const last = reasoning[reasoning.length - 1];
+          if (last?.type === 'text' && !last.signature) {
+            last.text += part.textDelta;
+          } else {
+            reasoning.push({ type: 'text', text: part.textDelta });
+          }
+          break;
+        }
+        case 'reasoning-signature': {
+          const last = reasoning[reasoning.length - 1];
+          if (last?.type === 'text') last.signature = part.signature;
+          break;
+        }
+        case 'redacted-reasoning':
+          reasoning.push({ type: 'redacted', data: part.data });
+          break;
+        case 'source':
+          sources.push(part.source);
+          break;
+        case 'tool-call': {
+          const { type: _type, ...toolCall } = part;
+          toolCalls.push(toolCall);
+          break;
+        }
+        case 'error':
+          failed = true;
+          break;
+        case 'finish':
+          if (failed || part.finishReason === 'error') break;
+          completion = onComplete({
+            response,
+            output: {
+              text,
+              reasoning: reasoning.length > 0 ? reasoning : undefined,
+              toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+              finishReason: part.finishReason,
+              usage: part.usage,
+              providerMetadata: part.providerMetadata,
+              sources: sources.length > 0 ? sources : undefined,
+            },
+          });
+          break;
+      }
+    },
+    flush() {
+      return completion;
+    },
+  });
+}
+
+/**
+ * Mark output as served from (or stored in) the response cache
+ */
+export function withCacheFlag<T extends { providerMetadata?: ClaudeCodeGenerateOutput['providerMetadata'] }>(
+  output: T,
+  hit: boolean,
+): T {
+  return {
+    ...output,
+    providerMetadata: {
+      ...output.providerMetadata,
+      anthropic: { ...output.providerMetadata?.anthropic, responseCacheHit: hit },
+    },
+  };
+}
+
+/**
+ * Caches model responses for one provider instance. Store failures are logged and count as misses.
+ */
+export class ResponseCache {
+  readonly store: ResponseCacheStore;
+
+  private readonly ttlMs: number | undefined;
+  private readonly logger: Logger;
+
+  constructor(options: ResponseCacheOptions, logger: Logger) {
+    this.store = options.store
+      ?? (options.dir ? createFileCacheStore(options.dir) : createMemoryCacheStore(options.maxEntries));
+    this.ttlMs = options.ttlMs;
+    this.logger = logger;
+  }
+
+  /**
+   * Key of a request: its body without `stream`, and its beta flags
+   */
+  getKey(body: Record<string, unknown>, betas: Iterable<string>): string {
+    const { stream: _stream, ...request } = body;
+    return createHash('sha256')
+      .update(stableStringify({ body: request, betas: [...betas].sort() }))
+      .digest('hex');
+  }
+
+  async get(key: string): Promise<ClaudeCodeCacheEntry | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        await this.store.delete(key);
+        return undefined;
+      }
+      return entry;
+    } catch (error) {
+      this.logger.warn('Failed to read the response cache', { error });
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: Pick<ClaudeCodeCacheEntry, 'output' | 'response'>): Promise<void> {
+    const createdAt = Date.now();
+    try {
+      await this.store.set(key, {
+        ...entry,
+        createdAt,
+        ...(this.ttlMs !== undefined ? { expiresAt: createdAt + this.ttlMs } : {}),
+      });
+    } catch (error) {
+      this.logger.warn('Failed to write the response cache', { error });
+    }
+  }
+}
@@ -0,0 +1,421 @@
+#!/usr/bin/env node
+/**
+ * claude-code-oauth command line
+ *
+ *   claude-code-oauth login [--paste] [--port <port>] [--credentials <path>]
+ *   claude-code-oauth logout [--credentials <path>]
+ *   claude-code-oauth status|refresh|token|doctor [--json] [--credentials <path>]
+ *   claude-code-oauth chat [prompt] [--model <id>] [--system <text>] [--json] [--credentials <path>]
+ *   claude-code-oauth serve [--port <port>] [--host <host>] [--api-key <key>]... [--cors <origin>]... [--allowed-host <host>]... [--json]
+ */
+
+import { statSync } from 'fs';
+import { createInterface } from 'readline';
+import { parseArgs } from 'util';
+import type { LanguageModelV1Prompt } from '@ai-sdk/provider';
+
+import { DEFAULT_BASE_URL, resolveApiConfig } from './api.js';
+import {
+  ANTHROPIC_TOKEN_URL,
+  CredentialManager,
+  createFileCredentialStore,
+  isTokenExpired,
+  type ClaudeCodeCredentials,
+  type FileCredentialStore,
+} from './credentials.js';
+import { listModels } from './models.js';
+import { login, logout } from './oauth.js';
+import { ClaudeCodeLanguageModel } from './provider.js';
+import { startProxyServer } from './proxy.js';
+
+const USAGE = `Usage: claude-code-oauth <command> [options]
+
+Commands:
+  login     Log in with your Claude account (OAuth)
+  logout    Revoke and delete the stored credentials
+  status    Show token expiry, scopes, subscription, rate-limit tier and organization
+  refresh   Force a token refresh
+  token     Print a valid access token, refreshing if needed
+  chat      Send a prompt and stream the reply; without a prompt, start a chat session
+  doctor    Check file permissions, clock skew and endpoint reachability
+  serve     Run a local Anthropic- and OpenAI-compatible proxy (/v1/messages, /v1/chat/completions)
+
+Options:
+  --credentials <path>  Credentials file (default: ~/.claude/.credentials.json)
+  --json                Print machine-readable JSON
+  --paste               login: paste the code instead of using a local callback server
+  --port <port>         login: port of the local callback server; serve: port to listen on (default: 8787)
+  --model <id>          chat: model ID or alias (default: sonnet)
+  --system <text>       chat: system prompt
+  --host <host>         serve: interface to listen on (default: 127.0.0.1)
+  --api-key <key>       serve: key clients must send, repeatable (default: $CLAUDE_CODE_PROXY_API_KEY)
+  --cors <origin>       serve: allowed browser origin, repeatable, or * for any
+  --allowed-host <host> serve: extra Host header value to accept, repeatable (loopback names always work)
+  -h, --help            Show this help
+`;
+
+const DEFAULT_CHAT_MODEL = 'sonnet';
+const DOCTOR_TIMEOUT_MS = 10_000;
+// Skew beyond this makes tokens look expired or valid when they aren't
+const MAX_CLOCK_SKEW_MS = 60_000;
+
+interface DoctorCheck {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      credentials: { type: 'string' },
+      json: { type: 'boolean' },
+      paste: { type: 'boolean' },
+      port: { type: 'string' },
+      model: { type: 'string' },
+      system: { type: 'string' },
+      host: { type: 'string' },
+      'api-key': { type: 'string', multiple: true },
+      cors: { type: 'string', multiple: true },
+      'allowed-host': { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return command || values.help ? 0 : 1;
+  }
+
+  const json = values.json ?? false;
+  const credentials = createFileCredentialStore(values.credentials);
+  const manager = new CredentialManager(credentials);
+
+  switch (command) {
+    case 'login': {
+      const result = await login({
+        mode: values.paste ? 'paste' : 'loopback',
+        port: values.port ? Number(values.port) : undefined,
+        credentials,
+      });
+      if (json) {
+        printJson({ path: credentials.path, ...describeCredentials(result) });
+        return 0;
+      }
+      console.log(`Logged in. Credentials saved to ${credentials.path}`);
+      console.log(`Token expires at ${new Date(result.claudeAiOauth.expiresAt).toISOString()}`);
+      return 0;
+    }
+
+    case 'logout': {
+      const { revoked, cleared } = await logout({ credentials });
+      if (json) {
+        printJson({ path: credentials.path, revoked, cleared });
+        return 0;
+      }
+      if (!cleared) {
+        console.log(`No credentials at ${credentials.path}`);
+        return 0;
+      }
+      console.log(revoked
+        ? `Logged out. Token revoked and ${credentials.path} deleted`
+        : `Deleted ${credentials.path}, but the token could not be revoked`);
+      return 0;
+    }
+
+    case 'status': {
+      const status = { path: credentials.path, ...describeCredentials(await manager.readCredentials()) };
+      if (json) {
+        printJson(status);
+        return 0;
+      }
+      console.log(`Credentials:   ${status.path}`);
+      console.log(`Expires:       ${status.expiresAt} (${status.expired ? 'expired' : `in ${formatDuration(status.expiresInMs)}`})`);
+      console.log(`Scopes:        ${status.scopes.join(', ') || '-'}`);
+      console.log(`Subscription:  ${status.subscriptionType ?? '-'}`);
+      console.log(`Rate limits:   ${status.rateLimitTier ?? '-'}`);
+      console.log(`Organization:  ${status.organizationUuid || '-'}`);
+      return 0;
+    }
+
+    case 'refresh': {
+      const refreshed = await manager.refreshToken();
+      if (json) {
+        printJson({ path: credentials.path, ...describeCredentials(refreshed) });
+        return 0;
+      }
+      console.log(`Token refreshed. Expires at ${new Date(refreshed.claudeAiOauth.expiresAt).toISOString()}`);
+      return 0;
+    }
+
+    case 'token': {
+      let current = await manager.readCredentials();
+      if (isTokenExpired(current)) {
+        current = await manager.refreshToken(current);
+      }
+      if (json) {
+        printJson({
+          accessToken: current.claudeAiOauth.accessToken,
+          expiresAt: new Date(current.claudeAiOauth.expiresAt).toISOString(),
+        });
+        return 0;
+      }
+      console.log(current.claudeAiOauth.accessToken);
+      return 0;
+    }
+
+    case 'chat': {
+      const model = new ClaudeCodeLanguageModel(values.model ?? DEFAULT_CHAT_MODEL, {}, { credentials: manager });
+      const prompt = args.join(' ');
+      return prompt
+        ? chatOnce(model, prompt, values.system, json)
+        : chatSession(model, values.system, json);
+    }
+
+    case 'doctor': {
+      const checks = await runDoctor(credentials, manager);
+      const ok = checks.every(check => check.ok);
+      if (json) {
+        printJson({ ok, checks });
+      } else {
+        for (const check of checks) {
+          console.log(`${check.ok ? 'ok  ' : 'FAIL'}  ${check.name}: ${check.detail}`);
+        }
+      }
+      return ok ? 0 : 1;
+    }
+
+    case 'serve': {
+      const apiKeys = values['api-key'] ?? (process.env.CLAUDE_CODE_PROXY_API_KEY ? [process.env.CLAUDE_CODE_PROXY_API_KEY] : []);
+      const proxy = await startProxyServer(resolveApiConfig({ credentials: manager }), {
+        port: values.port ? Number(values.port) : undefined,
+        host: values.host,
+        apiKeys,
+        cors: values.cors?.includes('*') ? true : values.cors,
+        allowedHosts: values['allowed-host'],
+        onRequest: entry => {
+          if (json) {
+            console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+            return;
+          }
+          const details = [entry.model, entry.stream ? 'stream' : undefined, entry.error].filter(Boolean).join(' ');
+          console.log(`${new Date().toISOString()} ${entry.method} ${entry.path} ${entry.status} ${entry.durationMs}ms${details ? ` ${details}` : ''}`);
+        },
+      });
+      // A long-running proxy renews tokens ahead of time and follows new logins
+      manager.startBackgroundRefresh();
+
+      if (!json) {
+        console.error(`Proxy listening on ${proxy.url} (Anthropic: ${proxy.url}/v1/messages, OpenAI: ${proxy.url}/v1/chat/completions)`);
+        if (apiKeys.length === 0 && !['127.0.0.1', 'localhost', '::1', undefined].includes(values.host)) {
+          console.error('Warning: no --api-key set, anyone who can reach this interface can use your credentials');
+        }
+      }
+
+      await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+      });
+      manager.close();
+      await proxy.close();
+      return 0;
+    }
+
+    default:
+      console.error(`Unknown command: ${command}\n`);
+      console.error(USAGE);
+      return 1;
+  }
+}
+
+function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Everything about the credentials except the tokens themselves
+ */
+function describeCredentials(credentials: ClaudeCodeCredentials) {
+  const { expiresAt, scopes, subscriptionType, rateLimitTier } = credentials.claudeAiOauth;
+  return {
+    expiresAt: new Date(expiresAt).toISOString(),
+    expiresInMs: expiresAt - Date.now(),
+    expired: isTokenExpired(credentials),
+    scopes: scopes ?? [],
+    subscriptionType,
+    rateLimitTier,
+    organizationUuid: credentials.organizationUuid,
+  };
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.floor(hours / 24)}d`;
+}
+
+/**
+ * Stream one reply, writing text as it arrives unless JSON output is requested
+ */
+async function streamReply(
+  model: ClaudeCodeLanguageModel,
+  prompt: LanguageModelV1Prompt,
+  json: boolean,
+): Promise<{ text: string; finishReason: string; usage?: { promptTokens: number; completionTokens: number } }> {
+  const { stream } = await model.doStream({ inputFormat: 'messages', mode: { type: 'regular' }, prompt });
+
+  let text = '';
+  let finishReason = 'unknown';
+  let usage: { promptTokens: number; completionTokens: number } | undefined;
+
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value: part } = await reader.read();
+    if (done) break;
+
+    switch (part.type) {
+      case 'text-delta':
+        text += part.textDelta;
+        if (!json) process.stdout.write(part.textDelta);
+        break;
+      case 'finish':
+        finishReason = part.finishReason;
+        usage = part.usage;
+        break;
+      case 'error':
+        throw part.error;
+    }
+  }
+
+  if (!json) process.stdout.write('\n');
+  return { text, finishReason, usage };
+}
+
+async function chatOnce(model: ClaudeCodeLanguageModel, prompt: string, system: string | undefined, json: boolean): Promise<number> {
+  const messages: LanguageModelV1Prompt = [
+    ...(system ? [{ role: 'system' as const, content: system }] : []),
+    { role: 'user', content: [{ type: 'text', text: prompt }] },
+  ];
+
+  const reply = await streamReply(model, messages, json);
+  if (json) {
+    printJson({ model: model.modelId, ...reply });
+  }
+  return 0;
+}
+
+/**
+ * Read prompts line by line and keep the conversation history between turns
+ */
+async function chatSession(model: ClaudeCodeLanguageModel, system: string | undefined, json: boolean): Promise<number> {
+  const messages: LanguageModelV1Prompt = system ? [{ role: 'system', content: system }] : [];
+  const readline = createInterface({ input: process.stdin, output: process.stderr, terminal: process.stdin.isTTY });
+
+  if (process.stdin.isTTY) {
+    console.error(`Chatting with ${model.modelId}. Press Ctrl+D to exit.`);
+  }
+
+  readline.setPrompt('> ');
+  readline.prompt();
+
+  for await (const line of readline) {
+    const prompt = line.trim();
+    if (prompt) {
+      messages.push({ role: 'user', content: [{ type: 'text', text: prompt }] });
+      try {
+        const reply = await streamReply(model, messages, json);
+        messages.push({ role: 'assistant', content: [{ type: 'text', text: reply.text }] });
+        if (json) {
+          console.log(JSON.stringify({ model: model.modelId, ...reply }));
+        }
+      } catch (error) {
+        // Drop the unanswered turn so the next prompt starts clean
+        messages.pop();
+        console.error(error instanceof Error ? error.message : error);
+      }
+    }
+    readline.prompt();
+  }
+
+  return 0;
+}
+
+async function runDoctor(credentials: FileCredentialStore, manager: CredentialManager): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+
+  try {
+    const { mode } = statSync(credentials.path);
+    const exposed = process.platform !== 'win32' && (mode & 0o077) !== 0;
+    checks.push({
+      name: 'credentials file',
+      ok: !exposed,
+      detail: exposed
+        ? `${credentials.path} is readable by other users (mode ${(mode & 0o777).toString(8)}), run: chmod 600 ${credentials.path}`
+        : `${credentials.path} (mode ${(mode & 0o777).toString(8)})`,
+    });
+  } catch {
+    checks.push({ name: 'credentials file', ok: false, detail: `${credentials.path} not found, run: claude-code-oauth login` });
+    return checks;
+  }
+
+  let current: ClaudeCodeCredentials | undefined;
+  try {
+    current = await manager.readCredentials();
+    const { expiresAt, refreshToken } = current.claudeAiOauth;
+    checks.push({
+      name: 'token',
+      ok: !isTokenExpired(current) || Boolean(refreshToken),
+      detail: isTokenExpired(current)
+        ? `expired at ${new Date(expiresAt).toISOString()}${refreshToken ? ', will be refreshed on next use' : ' and no refresh token'}`
+        : `valid until ${new Date(expiresAt).toISOString()}`,
+    });
+  } catch (error) {
+    checks.push({ name: 'token', ok: false, detail: error instanceof Error ? error.message : String(error) });
+  }
+
+  for (const [name, url] of [['api endpoint', DEFAULT_BASE_URL], ['token endpoint', ANTHROPIC_TOKEN_URL]] as const) {
+    try {
+      // Any HTTP response means the endpoint is reachable
+      const response = await fetch(url, { method: 'HEAD', signal: AbortSignal.timeout(DOCTOR_TIMEOUT_MS) });
+      checks.push({ name, ok: true, detail: `${url} (HTTP ${response.status})` });
+
+      const date = response.headers.get('date');
+      if (name === 'api endpoint' && date) {
+        const skew = Date.now() - new Date(date).getTime();
+        checks.push({
+          name: 'clock skew',
+          // The Date header only has second precision
+          ok: Math.abs(skew) <= MAX_CLOCK_SKEW_MS,
+          detail: `local clock is ${Math.round(Math.abs(skew) / 1000)}s ${skew >= 0 ? 'ahead of' : 'behind'} the API`,
+        });
+      }
+    } catch (error) {
+      checks.push({ name, ok: false, detail: `${url} unreachable: ${error instanceof Error ? error.message : error}` });
+    }
+  }
+
+  if (current) {
+    try {
+      const models = await listModels(resolveApiConfig({ credentials: manager }), {
+        abortSignal: AbortSignal.timeout(DOCTOR_TIMEOUT_MS),
+      });
+      checks.push({ name: 'authentication', ok: true, detail: `token accepted, ${models.length} models available` });
+    } catch (error) {
+      checks.push({ name: 'authentication', ok: false, detail: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return checks;
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,291 @@
+/**
+ * Convert AI SDK prompts to Anthropic Messages API format
+ */
+
+import type {
+  LanguageModelV1CallWarning,
+  LanguageModelV1FilePart,
+  LanguageModelV1Prompt,
+  LanguageModelV1ProviderMetadata,
+} from '@ai-sdk/provider';
+
+import type {
+  AnthropicCacheControl,
+  AnthropicContentBlock,
+  AnthropicDocumentBlock,
+  AnthropicImageBlock,
+  AnthropicMessage,
+  AnthropicTextBlock,
+  AnthropicToolResultBlock,
+} from './anthropic-api-types.js';
+
+/**
+ * Convert the non-system messages of a prompt.
+ *
+ * Consecutive user and tool messages are merged into a single user turn, and
+ * consecutive assistant messages into a single assistant turn, since the
+ * Messages API expects strictly alternating roles.
+ *
+ * `providerMetadata.anthropic.cacheControl` on a part marks that block as a
+ * cache breakpoint; on a message it marks the message's last block.
+ *
+ * Parts that can't be sent (e.g. unsupported file types) are skipped with a
+ * warning pushed to `warnings`.
+ */
+export function convertPrompt(
+  prompt: LanguageModelV1Prompt,
+  warnings: LanguageModelV1CallWarning[] = [],
+): AnthropicMessage[] {
+  const messages: Array<{ role: 'user' | 'assistant'; content: AnthropicContentBlock[] }> = [];
+
+  const append = (
+    role: 'user' | 'assistant',
+    content: AnthropicContentBlock[],
+    providerMetadata?: LanguageModelV1ProviderMetadata,
+  ) => {
+    if (content.length === 0) return;
+
+    const cacheControl = getCacheControl(providerMetadata);
+    if (cacheControl) {
+      setCacheControl(content[content.length - 1], cacheControl);
+    }
+
+    const last = messages[messages.length - 1];
+    if (last?.role === role) {
+      last.content.push(...content);
+    } else {
+      messages.push({ role, content });
+    }
+  };
+
+  for (const part of prompt) {
+    if (part.role === 'user') {
+      const content: AnthropicContentBlock[] = [];
+
+      for (const item of part.content) {
+        if (item.type === 'text') {
+          content.push(withCacheControl({ type: 'text', text: item.text }, item.providerMetadata));
+        } else if (item.type === 'image') {
+          content.push(withCacheControl(convertImage(item.image, item.mimeType), item.providerMetadata));
+        } else if (item.type === 'file') {
+          const block = convertFile(item, warnings);
+          if (block) {
+            content.push(withCacheControl(block, item.providerMetadata));
+          }
+        }
+      }
+
+      append('user', content, part.providerMetadata);
+    } else if (part.role === 'assistant') {
+      const content: AnthropicContentBlock[] = [];
+
+      for (const item of part.content) {
+        if (item.type === 'text') {
+          if (item.text) {
+            content.push(withCacheControl({ type: 'text', text: item.text }, item.providerMetadata));
+          }
+        } else if (item.type === 'reasoning') {
+          // Thinking blocks are only accepted back with the signature the API issued
+          if (item.signature) {
+            content.push({ type: 'thinking', thinking: item.text, signature: item.signature });
+          }
+        } else if (item.type === 'redacted-reasoning') {
+          content.push({ type: 'redacted_thinking', data: item.data });
+        } else if (item.type === 'file') {
+          warnings.push({
+            type: 'other',
+            message: `File parts in assistant messages are not supported and were dropped (${item.mimeType})`,
+          });
+        } else if (item.type === 'tool-call') {
+          content.push(withCacheControl({
+            type: 'tool_use',
+            id: item.toolCallId,
+            name: item.toolName,
+            input: typeof item.args === 'string' ? parseToolArgs(item.args) : item.args,
+          }, item.providerMetadata));
+        }
+      }
+
+      append('assistant', content, part.providerMetadata);
+    } else if (part.role === 'tool') {
+      // Tool results go as user messages with tool_result content
+      append('user', part.content.map((item): AnthropicToolResultBlock => withCacheControl({
+        type: 'tool_result',
+        tool_use_id: item.toolCallId,
+        content: item.content
+          ? item.content.map(contentPart => contentPart.type === 'text'
+            ? { type: 'text', text: contentPart.text } satisfies AnthropicTextBlock
+            : {
+              type: 'image',
+              source: {
+                type: 'base64',
+                media_type: contentPart.mimeType ?? 'image/png',
+                data: contentPart.data,
+              },
+            } satisfies AnthropicImageBlock)
+          : typeof item.result === 'string'
+            ? item.result
+            : JSON.stringify(item.result),
+        ...(item.isError ? { is_error: true } : {}),
+      }, item.providerMetadata)), part.providerMetadata);
+    }
+  }
+
+  // The API rejects a final assistant (prefill) message that ends with whitespace, and empty
+  // text blocks, so trim the prefill and drop what ends up empty
+  while (messages[messages.length - 1]?.role === 'assistant') {
+    const last = messages[messages.length - 1];
+    const lastBlock = last.content[last.content.length - 1];
+    if (!lastBlock) {
+      messages.pop();
+      continue;
+    }
+    if (lastBlock.type !== 'text') break;
+
+    lastBlock.text = lastBlock.text.trimEnd();
+    if (lastBlock.text) break;
+    last.content.pop();
+  }
+
+  return messages.map(message => {
+    const [first] = message.content;
+    return {
+      role: message.role,
+      content: message.content.length === 1 && first.type === 'text' && !first.cache_control
+        ? first.text
+        : message.content,
+    };
+  });
+}
+
+/**
+ * Turn a plain text prompt into an AI SDK prompt, with an optional system message first
+ */
+export function normalizePrompt(prompt: string | LanguageModelV1Prompt, system?: string): LanguageModelV1Prompt {
+  const messages: LanguageModelV1Prompt = typeof prompt === 'string'
+    ? [{ role: 'user', content: [{ type: 'text', text: prompt }] }]
+    : prompt;
+
+  return system ? [{ role: 'system', content: system }, ...messages] : messages;
+}
+
+/**
+ * Get the system prompt as text blocks, honoring per-message cache control
+ */
+export function extractSystemMessage(prompt: LanguageModelV1Prompt): AnthropicTextBlock[] {
+  const blocks: AnthropicTextBlock[] = [];
+
+  for (const part of prompt) {
+    if (part.role === 'system') {
+      blocks.push(withCacheControl({ type: 'text', text: part.content }, part.providerMetadata));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Read `anthropic.cacheControl` (or `cache_control`) from provider metadata
+ */
+export function getCacheControl(
+  providerMetadata: LanguageModelV1ProviderMetadata | undefined,
+): AnthropicCacheControl | undefined {
+  const anthropic = providerMetadata?.anthropic;
+  const cacheControl = anthropic?.cacheControl ?? anthropic?.cache_control;
+  return cacheControl ? cacheControl as unknown as AnthropicCacheControl : undefined;
+}
+
+function withCacheControl<T extends AnthropicContentBlock>(
+  block: T,
+  providerMetadata: LanguageModelV1ProviderMetadata | undefined,
+): T {
+  const cacheControl = getCacheControl(providerMetadata);
+  if (cacheControl) {
+    setCacheControl(block, cacheControl);
+  }
+  return block;
+}
+
+function setCacheControl(block: AnthropicContentBlock, cacheControl: AnthropicCacheControl): void {
+  // Thinking blocks can't be cache breakpoints themselves
+  if (block.type !== 'thinking' && block.type !== 'redacted_thinking') {
+    block.cache_control = cacheControl;
+  }
+}
+
+function convertImage(image: Uint8Array | URL, mimeType?: string): AnthropicImageBlock {
+  if (image instanceof URL) {
+    return {
+      type: 'image',
+      source: {
+        type: 'url',
+        url: image.toString(),
+      },
+    };
+  }
+
+  // Base64 encoded image
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: mimeType ?? 'image/png',
+      data: Buffer.from(image).toString('base64'),
+    },
+  };
+}
+
+/**
+ * Map a file part to a document block (PDF or plain text) or an image block.
+ * `providerMetadata.anthropic` may set `title`, `context` and `citations: { enabled: true }`.
+ */
+function convertFile(
+  file: LanguageModelV1FilePart,
+  warnings: LanguageModelV1CallWarning[],
+): AnthropicDocumentBlock | AnthropicImageBlock | undefined {
+  const { mimeType, data } = file;
+
+  if (mimeType.startsWith('image/')) {
+    return data instanceof URL
+      ? { type: 'image', source: { type: 'url', url: data.toString() } }
+      : { type: 'image', source: { type: 'base64', media_type: mimeType, data } };
+  }
+
+  let source: AnthropicDocumentBlock['source'];
+  if (mimeType === 'application/pdf') {
+    source = data instanceof URL
+      ? { type: 'url', url: data.toString() }
+      : { type: 'base64', media_type: 'application/pdf', data };
+  } else if (mimeType === 'text/plain' && !(data instanceof URL)) {
+    source = { type: 'text', media_type: 'text/plain', data: Buffer.from(data, 'base64').toString('utf-8') };
+  } else {
+    warnings.push({
+      type: 'other',
+      message: data instanceof URL
+        ? `File URLs are only supported for PDFs; dropped ${mimeType} file ${file.filename ?? data.toString()}`
+        : `Unsupported file type ${mimeType}${file.filename ? ` (${file.filename})` : ''} was dropped; ` +
+          `supported types are application/pdf, text/plain and image/*`,
+    });
+    return undefined;
+  }
+
+  const options = file.providerMetadata?.anthropic ?? {};
+  const title = typeof options.title === 'string' ? options.title : file.filename;
+  const citations = options.citations as { enabled?: boolean } | undefined;
+
+  return {
+    type: 'document',
+    source,
+    ...(title ? { title } : {}),
+    ...(typeof options.context === 'string' ? { context: options.context } : {}),
+    ...(citations?.enabled ? { citations: { enabled: true } } : {}),
+  };
+}
+
+function parseToolArgs(args: string): unknown {
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
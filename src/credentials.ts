@@ -1,11 +1,26 @@
 /**
  * Claude Code OAuth Credentials Manager
- * Reads and refreshes tokens from ~/.claude/.credentials.json
+ * Reads and refreshes tokens from pluggable credential stores
+ * (defaults to ~/.claude/.credentials.json)
  */
 
-import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, renameSync, unlinkSync, mkdirSync, watch } from 'fs';
+import { link, open, rename, stat, unlink } from 'fs/promises';
 import { homedir } from 'os';
-import { join } from 'path';
+import { basename, dirname, join } from 'path';
+import { randomBytes } from 'crypto';
+
+import { APICallError } from '@ai-sdk/provider';
+
+import {
+  CredentialsNotFoundError,
+  getResponseHeaders,
+  InvalidCredentialsError,
+  TokenRefreshError,
+  UnsupportedCredentialStoreError,
+} from './errors.js';
+import { resolveLogger, type Logger, type LogLevel } from './logger.js';
+import { withSpan, type Tracer } from './telemetry.js';
 
 export interface ClaudeCodeCredentials {
   claudeAiOauth: {
@@ -19,110 +34,703 @@ export interface ClaudeCodeCredentials {
   organizationUuid: string;
 }
 
-const CREDENTIALS_PATH = join(homedir(), '.claude', '.credentials.json');
-const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000; // Refresh 5 minutes before expiry
-const ANTHROPIC_TOKEN_URL = 'https://console.anthropic.com/v1/oauth/token';
+/**
+ * A source of Claude Code OAuth credentials
+ */
+export interface CredentialStore {
+  /** Human-readable location of the credentials, used in log and error messages */
+  readonly description: string;
+  /** Load the current credentials */
+  read(): ClaudeCodeCredentials | Promise<ClaudeCodeCredentials>;
+  /** Persist refreshed credentials */
+  write(credentials: ClaudeCodeCredentials): void | Promise<void>;
+  /**
+   * Take an exclusive lock across processes before a refresh.
+   * Resolves to a function that releases the lock.
+   */
+  lock?(): Promise<() => Promise<void>>;
+  /** Delete the stored credentials, used by `logout()` */
+  clear?(): void | Promise<void>;
+  /**
+   * Call `onChange` when the stored credentials may have changed.
+   * Returns a function that stops watching.
+   */
+  watch?(onChange: () => void): () => void;
+}
 
-let cachedCredentials: ClaudeCodeCredentials | null = null;
-let lastReadTime = 0;
-const CACHE_TTL_MS = 30_000; // Re-read file every 30s max
+/**
+ * Credential store backed by a JSON file in the Claude Code format
+ */
+export interface FileCredentialStore extends CredentialStore {
+  readonly path: string;
+  read(): ClaudeCodeCredentials;
+  write(credentials: ClaudeCodeCredentials): void;
+  lock(): Promise<() => Promise<void>>;
+  clear(): void;
+  watch(onChange: () => void): () => void;
+}
+
+export const DEFAULT_CREDENTIALS_PATH = join(homedir(), '.claude', '.credentials.json');
+const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000; // Refresh 5 minutes before expiry
+export const ANTHROPIC_TOKEN_URL = 'https://console.anthropic.com/v1/oauth/token';
+const CACHE_TTL_MS = 30_000; // Re-read store every 30s max
+const LOCK_STALE_MS = 30_000; // Break locks left behind by crashed processes
+const LOCK_TIMEOUT_MS = 15_000;
+const LOCK_RETRY_MS = 100;
 
 /**
- * Read credentials from disk with caching
+ * Acquire a lock file next to the credentials, waiting for other holders
  */
-export function readCredentials(): ClaudeCodeCredentials {
-  const now = Date.now();
-  
-  if (cachedCredentials && (now - lastReadTime) < CACHE_TTL_MS) {
-    return cachedCredentials;
-  }
-  
-  if (!existsSync(CREDENTIALS_PATH)) {
-    throw new Error(
-      `Claude Code credentials not found at ${CREDENTIALS_PATH}.\n` +
-      `Please install Claude Code and log in: https://claude.ai/code`
-    );
+async function acquireLockFile(lockPath: string): Promise<() => Promise<void>> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const handle = await open(lockPath, 'wx', 0o600);
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return async () => {
+        await unlink(lockPath).catch(() => {});
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const lockStat = await stat(lockPath).catch(() => null);
+    if (lockStat && Date.now() - lockStat.mtimeMs > LOCK_STALE_MS) {
+      await breakStaleLock(lockPath, lockStat);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for credentials lock ${lockPath}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
   }
-  
+}
+
+/**
+ * Remove a lock left behind by a crashed process. It's moved aside first: rename is
+ * atomic, so of several waiters that found it stale only one gets it, and a waiter
+ * that got a fresh lock instead (taken after another waiter broke the stale one)
+ * puts it back.
+ */
+async function breakStaleLock(lockPath: string, staleStat: { ino: number; mtimeMs: number }): Promise<void> {
+  const asidePath = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
   try {
-    const content = readFileSync(CREDENTIALS_PATH, 'utf-8');
-    cachedCredentials = JSON.parse(content) as ClaudeCodeCredentials;
-    lastReadTime = now;
-    return cachedCredentials;
-  } catch (error) {
-    throw new Error(`Failed to read Claude Code credentials: ${error}`);
+    await rename(lockPath, asidePath);
+  } catch {
+    // Already broken by another waiter
+    return;
   }
+
+  const moved = await stat(asidePath).catch(() => null);
+  if (moved && (moved.ino !== staleStat.ino || moved.mtimeMs !== staleStat.mtimeMs)) {
+    // link() doesn't replace a lock taken in the meantime
+    await link(asidePath, lockPath).catch(() => {});
+  }
+  await unlink(asidePath).catch(() => {});
 }
 
 /**
- * Check if token is expired or about to expire
+ * Create a store that reads credentials from a JSON file
+ * @param path - Defaults to ~/.claude/.credentials.json (written by Claude Code)
  */
-export function isTokenExpired(credentials: ClaudeCodeCredentials): boolean {
-  const expiresAt = credentials.claudeAiOauth.expiresAt;
-  return Date.now() >= (expiresAt - TOKEN_REFRESH_BUFFER_MS);
+export function createFileCredentialStore(path: string = DEFAULT_CREDENTIALS_PATH): FileCredentialStore {
+  return {
+    path,
+    description: path,
+    read() {
+      if (!existsSync(path)) {
+        throw new CredentialsNotFoundError({
+          location: path,
+          message:
+            `Claude Code credentials not found at ${path}.\n` +
+            `Please install Claude Code and log in: https://claude.ai/code`,
+        });
+      }
+
+      const content = readFileSync(path, 'utf-8');
+      try {
+        return JSON.parse(content) as ClaudeCodeCredentials;
+      } catch (error) {
+        throw new InvalidCredentialsError({
+          location: path,
+          message: `Failed to parse Claude Code credentials at ${path}: ${error}`,
+          cause: error,
+        });
+      }
+    },
+    write(credentials) {
+      // Write to a temp file and rename, so readers never see a partial file
+      const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+      try {
+        mkdirSync(dirname(path), { recursive: true, mode: 0o700 });
+        writeFileSync(tempPath, JSON.stringify(credentials, null, 2), { mode: 0o600 });
+        renameSync(tempPath, path);
+      } catch (error) {
+        try {
+          unlinkSync(tempPath);
+        } catch {
+          // Temp file was never created
+        }
+        throw error;
+      }
+    },
+    lock() {
+      return acquireLockFile(`${path}.lock`);
+    },
+    clear() {
+      if (existsSync(path)) {
+        unlinkSync(path);
+      }
+    },
+    watch(onChange) {
+      // Watch the directory: writers replace the file, which ends a watch on the file itself
+      const name = basename(path);
+      const watcher = watch(dirname(path), { persistent: false }, (_event, filename) => {
+        if (!filename || filename.toString() === name) onChange();
+      });
+      watcher.on('error', () => watcher.close());
+      return () => watcher.close();
+    },
+  };
+}
+
+export interface EnvCredentialStoreOptions {
+  /** Environment to read from. Defaults to process.env */
+  env?: Record<string, string | undefined>;
+  /** Variable prefix. Defaults to CLAUDE_CODE */
+  prefix?: string;
 }
 
 /**
- * Refresh the OAuth token using the refresh token
+ * Create a store that reads credentials from environment variables.
+ *
+ * Either `<PREFIX>_CREDENTIALS` holds the full credentials JSON, or
+ * `<PREFIX>_OAUTH_TOKEN` holds an access token, optionally with
+ * `<PREFIX>_OAUTH_REFRESH_TOKEN` and `<PREFIX>_OAUTH_EXPIRES_AT` (epoch ms).
+ * Refreshed credentials are kept in memory, since the environment can't be written back.
  */
-export async function refreshToken(credentials: ClaudeCodeCredentials): Promise<ClaudeCodeCredentials> {
-  const { refreshToken } = credentials.claudeAiOauth;
-  
-  const response = await fetch(ANTHROPIC_TOKEN_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
+export function createEnvCredentialStore(options: EnvCredentialStoreOptions = {}): CredentialStore {
+  const env = options.env ?? process.env;
+  const prefix = options.prefix ?? 'CLAUDE_CODE';
+  let refreshed: ClaudeCodeCredentials | null = null;
+
+  return {
+    description: `environment (${prefix}_*)`,
+    read() {
+      if (refreshed) {
+        return refreshed;
+      }
+
+      const json = env[`${prefix}_CREDENTIALS`];
+      if (json) {
+        try {
+          return JSON.parse(json) as ClaudeCodeCredentials;
+        } catch (error) {
+          throw new InvalidCredentialsError({
+            location: `${prefix}_CREDENTIALS`,
+            message: `Failed to parse ${prefix}_CREDENTIALS: ${error}`,
+            cause: error,
+          });
+        }
+      }
+
+      const accessToken = env[`${prefix}_OAUTH_TOKEN`];
+      if (!accessToken) {
+        throw new CredentialsNotFoundError({
+          location: `${prefix}_OAUTH_TOKEN`,
+          message:
+            `Claude Code credentials not found in environment.\n` +
+            `Set ${prefix}_CREDENTIALS or ${prefix}_OAUTH_TOKEN.`,
+        });
+      }
+
+      const expiresAt = env[`${prefix}_OAUTH_EXPIRES_AT`];
+      return {
+        claudeAiOauth: {
+          accessToken,
+          refreshToken: env[`${prefix}_OAUTH_REFRESH_TOKEN`] ?? '',
+          expiresAt: expiresAt ? Number(expiresAt) : Number.MAX_SAFE_INTEGER,
+          scopes: [],
+          subscriptionType: null,
+          rateLimitTier: null,
+        },
+        organizationUuid: env[`${prefix}_ORGANIZATION_UUID`] ?? '',
+      };
+    },
+    write(credentials) {
+      refreshed = credentials;
     },
-    body: JSON.stringify({
-      grant_type: 'refresh_token',
-      refresh_token: refreshToken,
-    }),
-  });
-  
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to refresh token: ${response.status} ${errorText}`);
-  }
-  
-  const data = await response.json() as {
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
-    scope?: string;
   };
-  
-  // Update credentials
-  const newCredentials: ClaudeCodeCredentials = {
-    ...credentials,
-    claudeAiOauth: {
-      ...credentials.claudeAiOauth,
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token || refreshToken,
-      expiresAt: Date.now() + (data.expires_in * 1000),
+}
+
+/**
+ * Create a store that holds credentials in memory
+ */
+export function createMemoryCredentialStore(credentials: ClaudeCodeCredentials): CredentialStore {
+  let current = credentials;
+
+  return {
+    description: 'memory',
+    read() {
+      return current;
+    },
+    write(next) {
+      current = next;
     },
   };
-  
-  // Save to disk
+}
+
+export interface CredentialManagerOptions {
+  /** Custom fetch implementation used for token refresh */
+  fetch?: typeof fetch;
+  /** OAuth token endpoint. Defaults to Anthropic's console endpoint */
+  tokenUrl?: string;
+  /** Logger or console log level. Defaults to console warnings and errors */
+  logger?: Logger | LogLevel;
+  /** OpenTelemetry tracer for token refresh spans */
+  tracer?: Tracer;
+  /** Called when a token is refreshed, expires, or the store gets new credentials */
+  onEvent?: (event: ClaudeCodeCredentialEvent) => void;
+}
+
+/**
+ * A change to the credentials of one store.
+ * - 'refreshed': this process renewed the token (`background` when the refresher did, not a request)
+ * - 'expired': the token expired (or came within five minutes of it) before it was renewed, so a
+ *   request had to wait for a refresh, or a background refresh failed past expiry
+ * - 'relogin': the store holds credentials from a new login such as `claude /login`: either for
+ *   another organization, or after this process's refresh token was rejected. They are used from
+ *   now on. Routine refreshes by other processes don't count.
+ */
+export type ClaudeCodeCredentialEvent =
+  | { type: 'refreshed'; store: string; expiresAt: number; background: boolean }
+  | { type: 'expired'; store: string; expiresAt: number }
+  | { type: 'relogin'; store: string; expiresAt: number };
+
+export interface BackgroundRefreshOptions {
+  /** Renew this long before the token expires. Defaults to 10 minutes */
+  refreshBeforeMs?: number;
+  /** Up to this much earlier, at random, so processes sharing a store don't refresh at once. Defaults to 2 minutes */
+  jitterMs?: number;
+  /** Watch the store for changes (new logins, refreshes elsewhere). Defaults to true */
+  watch?: boolean;
+}
+
+const DEFAULT_REFRESH_BEFORE_MS = 10 * 60 * 1000;
+const DEFAULT_REFRESH_JITTER_MS = 2 * 60 * 1000;
+const REFRESH_RETRY_MS = 60_000;
+
+/**
+ * Whether a failed refresh response rejects the refresh token itself (revoked, expired or already used)
+ */
+function isRejectedRefreshToken(status: number, responseBody: string): boolean {
+  if (status !== 400 && status !== 401) return false;
   try {
-    writeFileSync(CREDENTIALS_PATH, JSON.stringify(newCredentials, null, 2));
-    cachedCredentials = newCredentials;
-  } catch (error) {
-    console.warn('Failed to save refreshed credentials to disk:', error);
+    return (JSON.parse(responseBody) as { error?: unknown }).error === 'invalid_grant';
+  } catch {
+    return false;
+  }
+}
+const WATCH_DEBOUNCE_MS = 100;
+// setTimeout fires immediately for delays above 2^31 - 1 ms
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Caches and refreshes credentials from a single store.
+ * Each provider instance owns one, so several accounts can live in one process.
+ */
+export class CredentialManager {
+  readonly store: CredentialStore;
+
+  private readonly fetch?: typeof fetch;
+  private readonly tokenUrl: string;
+  private readonly logger: Logger;
+  private readonly tracer?: Tracer;
+  private cachedCredentials: ClaudeCodeCredentials | null = null;
+  private lastReadTime = 0;
+  private pendingRefresh: Promise<ClaudeCodeCredentials> | null = null;
+  private readonly onEvent?: (event: ClaudeCodeCredentialEvent) => void;
+  private backgroundRefresh: Required<Omit<BackgroundRefreshOptions, 'watch'>> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private watchTimer: ReturnType<typeof setTimeout> | null = null;
+  private stopWatching: (() => void) | null = null;
+  // Access token the 'expired' event was last emitted for, so it fires once per token
+  private expiredToken: string | null = null;
+  // Refresh token the OAuth endpoint rejected; credentials without it come from a new login
+  private rejectedRefreshToken: string | null = null;
+
+  constructor(store: CredentialStore = createFileCredentialStore(), options: CredentialManagerOptions = {}) {
+    this.store = store;
+    this.fetch = options.fetch;
+    this.tokenUrl = options.tokenUrl ?? ANTHROPIC_TOKEN_URL;
+    this.logger = resolveLogger(options.logger);
+    this.tracer = options.tracer;
+    this.onEvent = options.onEvent;
+  }
+
+  /**
+   * Renew the token in the background ahead of its expiry, so requests never wait for a
+   * refresh, and pick up store changes as they happen. Timers don't keep the process alive.
+   */
+  startBackgroundRefresh(options: BackgroundRefreshOptions = {}): void {
+    if (this.backgroundRefresh) return;
+
+    this.backgroundRefresh = {
+      refreshBeforeMs: options.refreshBeforeMs ?? DEFAULT_REFRESH_BEFORE_MS,
+      jitterMs: options.jitterMs ?? DEFAULT_REFRESH_JITTER_MS,
+    };
+
+    if ((options.watch ?? true) && this.store.watch) {
+      try {
+        this.stopWatching = this.store.watch(() => {
+          if (this.watchTimer) clearTimeout(this.watchTimer);
+          // Writers may touch the file several times in a row
+          this.watchTimer = setTimeout(() => {
+            this.watchTimer = null;
+            void this.reloadFromStore();
+          }, WATCH_DEBOUNCE_MS);
+          this.watchTimer.unref?.();
+        });
+      } catch (error) {
+        this.logger.warn(`Failed to watch ${this.store.description}`, { error });
+      }
+    }
+
+    this.readCredentials().then(
+      credentials => this.scheduleRefresh(credentials),
+      error => this.logger.warn(`Background refresh waiting for credentials in ${this.store.description}`, { error }),
+    );
   }
-  
-  return newCredentials;
+
+  /**
+   * Stop the background refresher and store watcher
+   */
+  close(): void {
+    this.backgroundRefresh = null;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    if (this.watchTimer) clearTimeout(this.watchTimer);
+    this.refreshTimer = null;
+    this.watchTimer = null;
+    this.stopWatching?.();
+    this.stopWatching = null;
+  }
+
+  private emit(event: ClaudeCodeCredentialEvent): void {
+    try {
+      this.onEvent?.(event);
+    } catch (error) {
+      this.logger.warn('onCredentialEvent callback failed', { error });
+    }
+  }
+
+  private noteExpired(credentials: ClaudeCodeCredentials): void {
+    if (this.expiredToken === credentials.claudeAiOauth.accessToken) return;
+    this.expiredToken = credentials.claudeAiOauth.accessToken;
+    this.emit({ type: 'expired', store: this.store.description, expiresAt: credentials.claudeAiOauth.expiresAt });
+  }
+
+  /**
+   * Schedule the next background refresh for the given credentials
+   */
+  private scheduleRefresh(credentials: ClaudeCodeCredentials, delayMs?: number): void {
+    if (!this.backgroundRefresh) return;
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+
+    const { refreshBeforeMs, jitterMs } = this.backgroundRefresh;
+    const refreshAt = credentials.claudeAiOauth.expiresAt - refreshBeforeMs - Math.random() * jitterMs;
+    const delay = Math.min(Math.max(delayMs ?? refreshAt - Date.now(), 0), MAX_TIMER_DELAY_MS);
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      void this.refreshInBackground(credentials);
+    }, delay);
+    this.refreshTimer.unref?.();
+  }
+
+  private async refreshInBackground(credentials: ClaudeCodeCredentials): Promise<void> {
+    try {
+      await this.refreshToken(credentials, true);
+    } catch (error) {
+      if (!this.backgroundRefresh) return;
+      if (Date.now() >= credentials.claudeAiOauth.expiresAt) {
+        this.noteExpired(credentials);
+      }
+
+      if (TokenRefreshError.isInstance(error)) {
+        // The refresh token was rejected; wait for a new login to show up in the store
+        this.logger.warn(`Background token refresh failed for ${this.store.description}`, { error });
+        return;
+      }
+      this.logger.warn(`Background token refresh failed, retrying in ${REFRESH_RETRY_MS / 1000}s`, { error });
+      this.scheduleRefresh(credentials, REFRESH_RETRY_MS);
+    }
+  }
+
+  /**
+   * Re-read the store after it changed, reporting credentials this process didn't write
+   */
+  private async reloadFromStore(): Promise<void> {
+    const previous = this.cachedCredentials;
+    this.invalidate();
+
+    let current: ClaudeCodeCredentials;
+    try {
+      current = await this.readCredentials();
+    } catch (error) {
+      this.logger.warn(`Failed to reload credentials from ${this.store.description}`, { error });
+      return;
+    }
+
+    const { refreshToken } = current.claudeAiOauth;
+    if (previous && refreshToken !== previous.claudeAiOauth.refreshToken) {
+      // Refresh tokens rotate on every refresh, so a new one alone may just be another process refreshing
+      const relogin = current.organizationUuid !== previous.organizationUuid
+        || (this.rejectedRefreshToken !== null && refreshToken !== this.rejectedRefreshToken);
+      if (relogin) {
+        this.rejectedRefreshToken = null;
+        this.logger.info(`New login in ${this.store.description}`);
+        this.emit({ type: 'relogin', store: this.store.description, expiresAt: current.claudeAiOauth.expiresAt });
+      } else {
+        this.logger.debug(`Credentials in ${this.store.description} were refreshed elsewhere`);
+      }
+    }
+    this.scheduleRefresh(current);
+  }
+
+  /**
+   * Read credentials from the store with caching
+   */
+  async readCredentials(): Promise<ClaudeCodeCredentials> {
+    return this.readCached();
+  }
+
+  /**
+   * Read credentials with caching, from a store whose `read()` is synchronous (such as a file store)
+   */
+  readCredentialsSync(): ClaudeCodeCredentials {
+    const credentials = this.readCached();
+    if (credentials instanceof Promise) {
+      // Still cached once it settles; failures surface on the next async read
+      credentials.catch(() => {});
+      throw new UnsupportedCredentialStoreError({
+        location: this.store.description,
+        message: `${this.store.description} can't be read synchronously; use getValidAccessToken() instead`,
+      });
+    }
+    return credentials;
+  }
+
+  /**
+   * The cached credentials while fresh, else the store's, cached once read.
+   * Synchronous when the cache is fresh or the store reads synchronously.
+   */
+  private readCached(): ClaudeCodeCredentials | Promise<ClaudeCodeCredentials> {
+    const now = Date.now();
+
+    if (this.cachedCredentials && (now - this.lastReadTime) < CACHE_TTL_MS) {
+      return this.cachedCredentials;
+    }
+
+    const credentials = this.store.read();
+    return credentials instanceof Promise
+      ? credentials.then(read => this.cache(read, now))
+      : this.cache(credentials, now);
+  }
+
+  private cache(credentials: ClaudeCodeCredentials, readTime = Date.now()): ClaudeCodeCredentials {
+    this.cachedCredentials = credentials;
+    this.lastReadTime = readTime;
+    return credentials;
+  }
+
+  /**
+   * Drop the cached credentials so the next read hits the store
+   */
+  invalidate(): void {
+    this.cachedCredentials = null;
+    this.lastReadTime = 0;
+  }
+
+  /**
+   * Refresh the OAuth token using the refresh token.
+   * Concurrent calls share one refresh, and the store is locked while it runs.
+   * @param credentials - The stale credentials. If the store already holds newer,
+   *   still-valid ones (refreshed by another process), those are returned instead.
+   * @param background - Whether the background refresher asked, as reported in the 'refreshed' event
+   */
+  refreshToken(credentials?: ClaudeCodeCredentials, background = false): Promise<ClaudeCodeCredentials> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refreshWithLock(credentials, background).finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  private async refreshWithLock(stale: ClaudeCodeCredentials | undefined, background: boolean): Promise<ClaudeCodeCredentials> {
+    const release = await this.store.lock?.();
+
+    try {
+      // Re-read under the lock: the Claude CLI or another worker may have refreshed already
+      this.invalidate();
+      const current = await this.readCredentials();
+
+      if (
+        stale &&
+        current.claudeAiOauth.accessToken !== stale.claudeAiOauth.accessToken &&
+        !isTokenExpired(current)
+      ) {
+        this.scheduleRefresh(current);
+        return current;
+      }
+
+      const refreshed = await withSpan(this.tracer, 'claude-code-oauth.token_refresh', {}, () => this.requestNewToken(current));
+      this.emit({ type: 'refreshed', store: this.store.description, expiresAt: refreshed.claudeAiOauth.expiresAt, background });
+      this.scheduleRefresh(refreshed);
+      return refreshed;
+    } finally {
+      await release?.();
+    }
+  }
+
+  private async requestNewToken(current: ClaudeCodeCredentials): Promise<ClaudeCodeCredentials> {
+    const { refreshToken } = current.claudeAiOauth;
+
+    if (!refreshToken) {
+      throw new TokenRefreshError({
+        message: `Cannot refresh token: no refresh token in ${this.store.description}`,
+      });
+    }
+
+    const response = await (this.fetch ?? fetch)(this.tokenUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      if (!isRejectedRefreshToken(response.status, errorText)) {
+        // An outage or rate limit: the refresh token may still be good, so a later attempt can succeed
+        throw new APICallError({
+          message: `Failed to refresh token: ${response.status} ${errorText}`,
+          url: this.tokenUrl,
+          requestBodyValues: { grant_type: 'refresh_token' },
+          statusCode: response.status,
+          responseHeaders: getResponseHeaders(response),
+          responseBody: errorText,
+          isRetryable: true,
+        });
+      }
+
+      this.rejectedRefreshToken = refreshToken;
+      throw new TokenRefreshError({
+        message:
+          `Failed to refresh token: ${response.status} ${errorText}\n` +
+          `Log in again with Claude Code: claude /login`,
+        statusCode: response.status,
+        responseBody: errorText,
+      });
+    }
+
+    const data = await response.json() as {
+      access_token: string;
+      refresh_token: string;
+      expires_in: number;
+      scope?: string;
+    };
+
+    // Update credentials
+    const newCredentials: ClaudeCodeCredentials = {
+      ...current,
+      claudeAiOauth: {
+        ...current.claudeAiOauth,
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token || refreshToken,
+        expiresAt: Date.now() + (data.expires_in * 1000),
+      },
+    };
+
+    this.cache(newCredentials);
+
+    this.logger.info(`Token refreshed, expires at ${new Date(newCredentials.claudeAiOauth.expiresAt).toISOString()}`);
+
+    // Save to store
+    try {
+      await this.store.write(newCredentials);
+    } catch (error) {
+      this.logger.warn(`Failed to save refreshed credentials to ${this.store.description}`, { error });
+    }
+
+    return newCredentials;
+  }
+
+  /**
+   * Get credentials with a valid access token, refreshing if necessary
+   */
+  async getValidCredentials(): Promise<ClaudeCodeCredentials> {
+    const credentials = await this.readCredentials();
+
+    if (isTokenExpired(credentials)) {
+      if (!this.pendingRefresh) {
+        this.logger.info('Token expired, refreshing...');
+        this.noteExpired(credentials);
+      }
+      return this.refreshToken(credentials);
+    }
+
+    return credentials;
+  }
+
+  /**
+   * Get a valid access token, refreshing if necessary
+   */
+  async getValidAccessToken(): Promise<string> {
+    const credentials = await this.getValidCredentials();
+    return credentials.claudeAiOauth.accessToken;
+  }
+}
+
+const defaultCredentialStore = createFileCredentialStore();
+/** Manager for ~/.claude/.credentials.json shared by the functions below and the default provider */
+export const defaultCredentialManager = new CredentialManager(defaultCredentialStore);
+
+/**
+ * Read credentials from ~/.claude/.credentials.json, re-reading the file at most every 30s
+ */
+export function readCredentials(): ClaudeCodeCredentials {
+  return defaultCredentialManager.readCredentialsSync();
+}
+
+/**
+ * Check if token is expired or about to expire
+ */
+export function isTokenExpired(credentials: ClaudeCodeCredentials): boolean {
+  const expiresAt = credentials.claudeAiOauth.expiresAt;
+  return Date.now() >= (expiresAt - TOKEN_REFRESH_BUFFER_MS);
+}
+
+/**
+ * Refresh the OAuth token and save it to ~/.claude/.credentials.json
+ */
+export async function refreshToken(credentials: ClaudeCodeCredentials): Promise<ClaudeCodeCredentials> {
+  return defaultCredentialManager.refreshToken(credentials);
 }
 
 /**
- * Get a valid access token, refreshing if necessary
+ * Get a valid access token from ~/.claude/.credentials.json, refreshing if necessary
  */
 export async function getValidAccessToken(): Promise<string> {
-  let credentials = readCredentials();
-  
-  if (isTokenExpired(credentials)) {
-    console.log('[claude-code-oauth] Token expired, refreshing...');
-    credentials = await refreshToken(credentials);
-  }
-  
-  return credentials.claudeAiOauth.accessToken;
+  return defaultCredentialManager.getValidAccessToken();
 }
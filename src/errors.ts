@@ -0,0 +1,266 @@
+/**
+ * Error types thrown by the Claude Code OAuth provider
+ */
+
+import { AISDKError, APICallError } from '@ai-sdk/provider';
+
+/**
+ * Anthropic error types, from the `error.type` field of API error responses
+ */
+export type AnthropicErrorType =
+  | 'invalid_request_error'
+  | 'authentication_error'
+  | 'permission_error'
+  | 'not_found_error'
+  | 'request_too_large'
+  | 'rate_limit_error'
+  | 'api_error'
+  | 'overloaded_error'
+  | (string & {});
+
+export interface AnthropicErrorData {
+  type: AnthropicErrorType;
+  message: string;
+}
+
+/**
+ * No credentials exist at the configured location
+ */
+export class CredentialsNotFoundError extends AISDKError {
+  readonly location: string;
+
+  constructor({ location, message }: { location: string; message: string }) {
+    super({ name: 'CredentialsNotFoundError', message });
+    this.location = location;
+  }
+
+  static isInstance(error: unknown): error is CredentialsNotFoundError {
+    return error instanceof Error && error.name === 'CredentialsNotFoundError';
+  }
+}
+
+/**
+ * Credentials exist but can't be parsed
+ */
+export class InvalidCredentialsError extends AISDKError {
+  readonly location: string;
+
+  constructor({ location, message, cause }: { location: string; message: string; cause?: unknown }) {
+    super({ name: 'InvalidCredentialsError', message, cause });
+    this.location = location;
+  }
+
+  static isInstance(error: unknown): error is InvalidCredentialsError {
+    return error instanceof Error && error.name === 'InvalidCredentialsError';
+  }
+}
+
+/**
+ * The credential store can't do what was asked of it, such as a synchronous
+ * read of a store whose `read()` is async
+ */
+export class UnsupportedCredentialStoreError extends AISDKError {
+  readonly location: string;
+
+  constructor({ location, message }: { location: string; message: string }) {
+    super({ name: 'UnsupportedCredentialStoreError', message });
+    this.location = location;
+  }
+
+  static isInstance(error: unknown): error is UnsupportedCredentialStoreError {
+    return error instanceof Error && error.name === 'UnsupportedCredentialStoreError';
+  }
+}
+
+/**
+ * The OAuth endpoint rejected the refresh token (revoked, expired or already used).
+ * Logging in again with Claude Code is required.
+ */
+export class TokenRefreshError extends AISDKError {
+  readonly statusCode?: number;
+  readonly responseBody?: string;
+
+  constructor({ message, statusCode, responseBody, cause }: {
+    message: string;
+    statusCode?: number;
+    responseBody?: string;
+    cause?: unknown;
+  }) {
+    super({ name: 'TokenRefreshError', message, cause });
+    this.statusCode = statusCode;
+    this.responseBody = responseBody;
+  }
+
+  static isInstance(error: unknown): error is TokenRefreshError {
+    return error instanceof Error && error.name === 'TokenRefreshError';
+  }
+}
+
+/**
+ * The OAuth login flow failed: denied authorization, state mismatch, timeout
+ * or a rejected code exchange
+ */
+export class OAuthLoginError extends AISDKError {
+  readonly statusCode?: number;
+  readonly responseBody?: string;
+
+  constructor({ message, statusCode, responseBody, cause }: {
+    message: string;
+    statusCode?: number;
+    responseBody?: string;
+    cause?: unknown;
+  }) {
+    super({ name: 'OAuthLoginError', message, cause });
+    this.statusCode = statusCode;
+    this.responseBody = responseBody;
+  }
+
+  static isInstance(error: unknown): error is OAuthLoginError {
+    return error instanceof Error && error.name === 'OAuthLoginError';
+  }
+}
+
+/**
+ * A request doesn't fit the model's context window or output limit.
+ * Thrown by the context-window preflight before the request is sent.
+ */
+export class ContextWindowExceededError extends AISDKError {
+  readonly modelId: string;
+  readonly inputTokens: number;
+  readonly maxTokens: number;
+  readonly contextWindow: number;
+  readonly maxOutputTokens: number;
+
+  constructor({ message, modelId, inputTokens, maxTokens, contextWindow, maxOutputTokens }: {
+    message: string;
+    modelId: string;
+    inputTokens: number;
+    maxTokens: number;
+    contextWindow: number;
+    maxOutputTokens: number;
+  }) {
+    super({ name: 'ContextWindowExceededError', message });
+    this.modelId = modelId;
+    this.inputTokens = inputTokens;
+    this.maxTokens = maxTokens;
+    this.contextWindow = contextWindow;
+    this.maxOutputTokens = maxOutputTokens;
+  }
+
+  static isInstance(error: unknown): error is ContextWindowExceededError {
+    return error instanceof Error && error.name === 'ContextWindowExceededError';
+  }
+}
+
+/**
+ * A usage budget is used up. Thrown before the request is sent.
+ */
+export class UsageBudgetExceededError extends AISDKError {
+  /** Tag the budget applies to, or undefined for a budget over all calls */
+  readonly tag: string | undefined;
+  readonly period: 'day' | 'all';
+  readonly maxTokens: number;
+  readonly usedTokens: number;
+
+  constructor({ message, tag, period, maxTokens, usedTokens }: {
+    message: string;
+    tag: string | undefined;
+    period: 'day' | 'all';
+    maxTokens: number;
+    usedTokens: number;
+  }) {
+    super({ name: 'UsageBudgetExceededError', message });
+    this.tag = tag;
+    this.period = period;
+    this.maxTokens = maxTokens;
+    this.usedTokens = usedTokens;
+  }
+
+  static isInstance(error: unknown): error is UsageBudgetExceededError {
+    return error instanceof Error && error.name === 'UsageBudgetExceededError';
+  }
+}
+
+/**
+ * Replay mode found no recording for a request. `diff` compares the request
+ * body with the closest recording for the same endpoint, if there is one.
+ */
+export class RecordingMismatchError extends AISDKError {
+  /** Hash the recording would be stored under */
+  readonly key: string;
+  /** File of the closest recording */
+  readonly closestRecording: string | undefined;
+  /** Lines of `- recorded` / `+ requested` values by JSON path */
+  readonly diff: string[];
+
+  constructor({ message, key, closestRecording, diff }: {
+    message: string;
+    key: string;
+    closestRecording: string | undefined;
+    diff: string[];
+  }) {
+    super({ name: 'RecordingMismatchError', message });
+    this.key = key;
+    this.closestRecording = closestRecording;
+    this.diff = diff;
+  }
+
+  static isInstance(error: unknown): error is RecordingMismatchError {
+    return error instanceof Error && error.name === 'RecordingMismatchError';
+  }
+}
+
+/**
+ * Collect response headers into a plain object
+ */
+export function getResponseHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return headers;
+}
+
+/**
+ * Parse an Anthropic error body (`{ type: 'error', error: { type, message } }`)
+ */
+export function parseAnthropicError(body: string): AnthropicErrorData | undefined {
+  try {
+    const parsed = JSON.parse(body) as { error?: Partial<AnthropicErrorData> };
+    if (parsed.error?.type) {
+      return { type: parsed.error.type, message: parsed.error.message ?? '' };
+    }
+  } catch {
+    // Not JSON, e.g. an HTML error page from a proxy
+  }
+  return undefined;
+}
+
+/**
+ * Build an APICallError from a failed Messages API response.
+ * Retryability follows the status code (408, 409, 429, 5xx including 529 overloaded),
+ * unless the API says otherwise through `x-should-retry`.
+ */
+export async function createAPICallError({ response, url, requestBodyValues }: {
+  response: Response;
+  url: string;
+  requestBodyValues: unknown;
+}): Promise<APICallError> {
+  const responseBody = await response.text();
+  const responseHeaders = getResponseHeaders(response);
+  const data = parseAnthropicError(responseBody);
+  const shouldRetry = responseHeaders['x-should-retry'];
+
+  return new APICallError({
+    message: data
+      ? `Anthropic API error (${response.status} ${data.type}): ${data.message}`
+      : `Anthropic API error: ${response.status} ${responseBody}`,
+    url,
+    requestBodyValues,
+    statusCode: response.status,
+    responseHeaders,
+    responseBody,
+    data,
+    ...(shouldRetry === 'true' || shouldRetry === 'false' ? { isRetryable: shouldRetry === 'true' } : {}),
+  });
+}
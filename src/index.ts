@@ -15,10 +15,216 @@
  * ```
  */
 
-import { ClaudeCodeLanguageModel, type ClaudeCodeModelId, type ClaudeCodeModelSettings } from './provider.js';
-export { getValidAccessToken, readCredentials, refreshToken, isTokenExpired } from './credentials.js';
-export type { ClaudeCodeCredentials } from './credentials.js';
+import { InvalidArgumentError } from '@ai-sdk/provider';
+
+import {
+  ClaudeCodeLanguageModel,
+  type ClaudeCodeCountTokensOptions,
+  type ClaudeCodeModelId,
+  type ClaudeCodeModelSettings,
+} from './provider.js';
+import {
+  CredentialManager,
+  defaultCredentialManager,
+  type BackgroundRefreshOptions,
+  type ClaudeCodeCredentialEvent,
+  type CredentialStore,
+} from './credentials.js';
+import { CredentialPool, type CredentialPoolStrategy } from './pool.js';
+import { QuotaTracker, type QuotaSnapshot } from './quota.js';
+import { claudeCodeTools } from './tools.js';
+import { ClaudeCodeLanguageModelV2 } from './provider-v2.js';
+import { resolveApiConfig } from './api.js';
+import { listModels, type ClaudeCodeListedModel } from './models.js';
+import { createBatches, type ClaudeCodeBatches } from './batches.js';
+import { startProxyServer, type ClaudeCodeProxyServer, type ProxyServerOptions } from './proxy.js';
+import { resolveLogger, type Logger, type LogLevel } from './logger.js';
+import { RequestRecorder, type ClaudeCodeRecordingOptions } from './recording.js';
+import { ResponseCache, type ResponseCacheOptions } from './cache.js';
+import {
+  UsageLedger,
+  type ClaudeCodeUsageSummary,
+  type ClaudeCodeUsageSummaryOptions,
+  type UsageLedgerOptions,
+} from './usage.js';
+import type {
+  ClaudeCodeErrorEvent,
+  ClaudeCodeRequestEvent,
+  ClaudeCodeResponseEvent,
+  Tracer,
+} from './telemetry.js';
+export {
+  getValidAccessToken,
+  readCredentials,
+  refreshToken,
+  isTokenExpired,
+  createFileCredentialStore,
+  createEnvCredentialStore,
+  createMemoryCredentialStore,
+  CredentialManager,
+  DEFAULT_CREDENTIALS_PATH,
+} from './credentials.js';
+export type {
+  ClaudeCodeCredentials,
+  CredentialStore,
+  FileCredentialStore,
+  EnvCredentialStoreOptions,
+  CredentialManagerOptions,
+  BackgroundRefreshOptions,
+  ClaudeCodeCredentialEvent,
+} from './credentials.js';
+export {
+  CredentialsNotFoundError,
+  InvalidCredentialsError,
+  UnsupportedCredentialStoreError,
+  TokenRefreshError,
+  OAuthLoginError,
+  ContextWindowExceededError,
+  UsageBudgetExceededError,
+  RecordingMismatchError,
+  parseAnthropicError,
+} from './errors.js';
+export type { AnthropicErrorType, AnthropicErrorData } from './errors.js';
+export { APICallError } from '@ai-sdk/provider';
+export { login, logout } from './oauth.js';
+export type { LoginOptions, LogoutOptions } from './oauth.js';
 export { ClaudeCodeLanguageModel, type ClaudeCodeModelId, type ClaudeCodeModelSettings };
+export type { ClaudeCodeModelConfig, ClaudeCodeCountTokensOptions, ClaudeCodeCallOptions } from './provider.js';
+export { ClaudeCodeLanguageModelV2 };
+export { getModelCatalog, getModelInfo, resolveModelId } from './models.js';
+export type { ClaudeCodeModelAlias, ClaudeCodeModelInfo, ClaudeCodeModelPricing, ClaudeCodeListedModel } from './models.js';
+export { parseQuotaHeaders, QuotaTracker } from './quota.js';
+export { CredentialPool } from './pool.js';
+export type { CredentialPoolAccount, CredentialPoolOptions, CredentialPoolStrategy } from './pool.js';
+export type { QuotaSnapshot, RateLimitWindow, SubscriptionLimitWindow } from './quota.js';
+export { claudeCodeTools } from './tools.js';
+export type { ClaudeCodeProviderTool, ClaudeCodeToolExecutionOptions } from './tools.js';
+export type {
+  ClaudeCodeBatch,
+  ClaudeCodeBatches,
+  ClaudeCodeBatchList,
+  ClaudeCodeBatchRequest,
+  ClaudeCodeBatchResult,
+} from './batches.js';
+export type { ClaudeCodeGenerateOutput } from './provider.js';
+export type { ClaudeCodeProxyServer, ProxyRequestLog, ProxyServerOptions } from './proxy.js';
+export { createConsoleLogger, redactSecrets } from './logger.js';
+export type { Logger, LogLevel } from './logger.js';
+export type {
+  ClaudeCodeErrorEvent,
+  ClaudeCodeRequestEvent,
+  ClaudeCodeRequestHooks,
+  ClaudeCodeResponseEvent,
+} from './telemetry.js';
+export {
+  UsageLedger,
+  createFileUsageSink,
+  createMemoryUsageSink,
+  estimateCost,
+  DEFAULT_USAGE_PATH,
+} from './usage.js';
+export type {
+  ClaudeCodeUsageBudget,
+  ClaudeCodeUsageGroupBy,
+  ClaudeCodeUsageRecord,
+  ClaudeCodeUsageSummary,
+  ClaudeCodeUsageSummaryOptions,
+  ClaudeCodeUsageTotals,
+  UsageLedgerOptions,
+  UsageSink,
+} from './usage.js';
+export { RequestRecorder } from './recording.js';
+export { ResponseCache, createFileCacheStore, createMemoryCacheStore } from './cache.js';
+export type { ClaudeCodeCacheEntry, ResponseCacheOptions, ResponseCacheStore } from './cache.js';
+export type { ClaudeCodeRecording, ClaudeCodeRecordingMode, ClaudeCodeRecordingOptions } from './recording.js';
+
+/**
+ * Claude Code OAuth provider settings
+ */
+export interface ClaudeCodeProviderSettings {
+  /**
+   * Where OAuth credentials are read from and refreshed tokens are saved.
+   * Defaults to ~/.claude/.credentials.json. A CredentialManager shares its cache and
+   * refresh with other users of it; `fetch`, `tokenUrl` and `onCredentialEvent` don't apply to it.
+   */
+  credentials?: CredentialStore | CredentialManager;
+  /**
+   * Several accounts (stores or credential file paths) to spread requests over.
+   * Rate-limited accounts cool down until their reset time and the request is
+   * retried on another one. Takes precedence over `credentials`.
+   */
+  accounts?: Array<CredentialStore | string>;
+  /**
+   * How an account is picked per request when `accounts` is set. Defaults to 'round-robin'
+   */
+  accountStrategy?: CredentialPoolStrategy;
+  /**
+   * Base URL for API calls. Defaults to https://api.anthropic.com/v1
+   */
+  baseURL?: string;
+  /**
+   * Custom fetch implementation, used for API calls and token refresh
+   */
+  fetch?: typeof fetch;
+  /**
+   * OAuth token endpoint used for refresh. Defaults to Anthropic's console endpoint
+   */
+  tokenUrl?: string;
+  /**
+   * Extra headers sent with every request
+   */
+  headers?: Record<string, string>;
+  /**
+   * Called with the parsed rate-limit and subscription quota headers of every response
+   */
+  onRateLimit?: (snapshot: QuotaSnapshot) => void;
+  /**
+   * Logger, or a level for the console logger. Defaults to console warnings and errors.
+   * Bearer tokens are always redacted.
+   */
+  logger?: Logger | LogLevel;
+  /**
+   * Called before every API request (and its retry after a 401), with the built body
+   */
+  onRequest?: (event: ClaudeCodeRequestEvent) => void;
+  /**
+   * Called when an API request succeeds, with status, headers, duration and quota
+   */
+  onResponse?: (event: ClaudeCodeResponseEvent) => void;
+  /**
+   * Called when an API request fails
+   */
+  onError?: (event: ClaudeCodeErrorEvent) => void;
+  /**
+   * OpenTelemetry tracer (e.g. `trace.getTracer('my-app')`). Adds spans for HTTP calls,
+   * token refreshes and streams, with time to first token.
+   */
+  tracer?: Tracer;
+  /**
+   * Record every model call (tokens, latency, finish reason, tag) to a local ledger.
+   * `true` appends to ~/.claude/ai-sdk-usage.jsonl; options add a custom sink, a default tag and token budgets.
+   */
+  usage?: boolean | Omit<UsageLedgerOptions, 'logger'>;
+  /**
+   * Save API responses to `dir` ('record') or serve them from there with no network
+   * access or credentials ('replay'), for deterministic tests. 'passthrough' turns it off.
+   */
+  recording?: ClaudeCodeRecordingOptions;
+  /**
+   * Serve byte-identical generate and stream requests from earlier responses, flagged with
+   * `providerMetadata.anthropic.responseCacheHit`. `true` uses an in-memory LRU; options add TTL, size, or a directory.
+   */
+  cache?: boolean | ResponseCacheOptions;
+  /**
+   * Renew tokens in the background before they expire (with jitter), and watch credential files
+   * so a new login is picked up at once. Stop it with `close()`.
+   */
+  backgroundRefresh?: boolean | BackgroundRefreshOptions;
+  /**
+   * Called when a token is refreshed, expires before renewal, or a new login is detected
+   */
+  onCredentialEvent?: (event: ClaudeCodeCredentialEvent) => void;
+}
 
 /**
  * Claude Code OAuth provider instance
@@ -26,7 +232,7 @@ export { ClaudeCodeLanguageModel, type ClaudeCodeModelId, type ClaudeCodeModelSe
 export interface ClaudeCodeProvider {
   /**
    * Create a language model instance
-   * @param modelId - Model ID (e.g., 'claude-sonnet-4-20250514')
+   * @param modelId - Model ID or alias (e.g., 'claude-sonnet-4-20250514' or 'sonnet')
    * @param settings - Optional model settings
    */
   (modelId: ClaudeCodeModelId, settings?: ClaudeCodeModelSettings): ClaudeCodeLanguageModel;
@@ -40,25 +246,174 @@ export interface ClaudeCodeProvider {
    * Create a chat model instance (alias for languageModel)
    */
   chat(modelId: ClaudeCodeModelId, settings?: ClaudeCodeModelSettings): ClaudeCodeLanguageModel;
+
+  /**
+   * Create a LanguageModelV2 instance for AI SDK 5
+   */
+  languageModelV2(modelId: ClaudeCodeModelId, settings?: ClaudeCodeModelSettings): ClaudeCodeLanguageModelV2;
+
+  /**
+   * Credential cache and refresh state of this provider instance
+   */
+  readonly credentials: CredentialManager;
+
+  /**
+   * Account pool with per-account cooldown and quota, when `accounts` is set
+   */
+  readonly pool: CredentialPool | undefined;
+
+  /**
+   * Latest rate-limit and subscription quota snapshot, or null before the first response
+   */
+  getQuotaStatus(): QuotaSnapshot | null;
+
+  /**
+   * Usage ledger, when `usage` is set
+   */
+  readonly usage: UsageLedger | undefined;
+
+  /**
+   * Token, latency and API-price cost totals from the usage ledger, optionally grouped.
+   * Throws if `usage` is not set.
+   */
+  getUsageSummary(options?: ClaudeCodeUsageSummaryOptions): Promise<ClaudeCodeUsageSummary>;
+
+  /**
+   * Anthropic provider-defined tools (web search, code execution, bash, text editor, computer)
+   */
+  readonly tools: typeof claudeCodeTools;
+
+  /**
+   * Message Batches API: asynchronous requests at reduced cost.
+   * With an account pool, batches always use the first account, which owns them.
+   */
+  readonly batches: ClaudeCodeBatches;
+
+  /**
+   * Count the input tokens of a prompt, built exactly as a call to the model would be
+   */
+  countTokens(
+    modelId: ClaudeCodeModelId,
+    options: ClaudeCodeCountTokensOptions & { settings?: ClaudeCodeModelSettings },
+  ): Promise<{ inputTokens: number }>;
+
+  /**
+   * Models available to the account, with catalog metadata for known ones
+   */
+  listModels(options?: { abortSignal?: AbortSignal }): Promise<ClaudeCodeListedModel[]>;
+
+  /**
+   * Start a local Anthropic- and OpenAI-compatible proxy server that forwards
+   * requests with this provider's credentials
+   */
+  serve(options?: ProxyServerOptions): Promise<ClaudeCodeProxyServer>;
+
+  /**
+   * Stop background token refresh and credential file watching
+   */
+  close(): void;
 }
 
 /**
  * Create a Claude Code OAuth provider
+ * 
+ * @example
+ * ```ts
+ * const work = createClaudeCode({
+ *   credentials: createFileCredentialStore('/secrets/work.json'),
+ * });
+ * ```
  */
-export function createClaudeCode(): ClaudeCodeProvider {
+export function createClaudeCode(options: ClaudeCodeProviderSettings = {}): ClaudeCodeProvider {
+  const logger = resolveLogger(options.logger);
+  const pool = options.accounts
+    ? new CredentialPool(options.accounts, {
+      strategy: options.accountStrategy,
+      fetch: options.fetch,
+      tokenUrl: options.tokenUrl,
+      logger,
+      tracer: options.tracer,
+      onCredentialEvent: options.onCredentialEvent,
+    })
+    : undefined;
+  const credentials = pool?.accounts[0].credentials
+    ?? (options.credentials instanceof CredentialManager ? options.credentials : new CredentialManager(options.credentials, {
+      fetch: options.fetch,
+      tokenUrl: options.tokenUrl,
+      logger,
+      tracer: options.tracer,
+      onEvent: options.onCredentialEvent,
+    }));
+  const managers = pool ? pool.accounts.map(account => account.credentials) : [credentials];
+  if (options.backgroundRefresh) {
+    const refreshOptions = options.backgroundRefresh === true ? {} : options.backgroundRefresh;
+    managers.forEach(manager => manager.startBackgroundRefresh(refreshOptions));
+  }
+  const quota = new QuotaTracker(options.onRateLimit, logger);
+  const usage = options.usage
+    ? new UsageLedger({ ...(options.usage === true ? {} : options.usage), logger })
+    : undefined;
+  const apiConfig = resolveApiConfig({
+    baseURL: options.baseURL,
+    fetch: options.fetch,
+    headers: options.headers,
+    credentials,
+    quota,
+    pool,
+    logger,
+    hooks: {
+      onRequest: options.onRequest,
+      onResponse: options.onResponse,
+      onError: options.onError,
+    },
+    tracer: options.tracer,
+    usage,
+    recorder: options.recording && new RequestRecorder(options.recording, logger),
+    cache: options.cache ? new ResponseCache(options.cache === true ? {} : options.cache, logger) : undefined,
+  });
+  
   const createModel = (modelId: ClaudeCodeModelId, settings?: ClaudeCodeModelSettings) => {
-    return new ClaudeCodeLanguageModel(modelId, settings);
+    return new ClaudeCodeLanguageModel(modelId, settings, apiConfig);
   };
   
-  const provider = createModel as ClaudeCodeProvider;
+  const provider = createModel as ClaudeCodeProvider & {
+    credentials: CredentialManager;
+    pool: CredentialPool | undefined;
+    usage: UsageLedger | undefined;
+    tools: typeof claudeCodeTools;
+    batches: ClaudeCodeBatches;
+  };
   provider.languageModel = createModel;
   provider.chat = createModel;
+  provider.languageModelV2 = (modelId, settings) => new ClaudeCodeLanguageModelV2(modelId, settings, apiConfig);
+  provider.credentials = credentials;
+  provider.pool = pool;
+  provider.getQuotaStatus = () => quota.get();
+  provider.usage = usage;
+  provider.getUsageSummary = async summaryOptions => {
+    if (!usage) {
+      throw new InvalidArgumentError({
+        argument: 'usage',
+        message: 'Usage recording is off. Enable it with `usage` in createClaudeCode()',
+      });
+    }
+    return usage.getSummary(summaryOptions);
+  };
+  provider.tools = claudeCodeTools;
+  provider.batches = createBatches({ ...apiConfig, pool: undefined }, createModel);
+  provider.countTokens = (modelId, { settings, ...countOptions }) => {
+    return createModel(modelId, settings).countTokens(countOptions);
+  };
+  provider.listModels = options => listModels(apiConfig, options);
+  provider.serve = options => startProxyServer(apiConfig, options);
+  provider.close = () => managers.forEach(manager => manager.close());
   
   return provider;
 }
 
 /**
- * Default Claude Code OAuth provider instance
+ * Default Claude Code OAuth provider instance. It shares its credential cache and token
+ * refresh with `getValidAccessToken()` and `refreshToken()`.
  * 
  * @example
  * ```ts
@@ -67,7 +422,7 @@ export function createClaudeCode(): ClaudeCodeProvider {
  * const model = claudeCode('claude-sonnet-4-20250514');
  * ```
  */
-export const claudeCode = createClaudeCode();
+export const claudeCode = createClaudeCode({ credentials: defaultCredentialManager });
 
 // Default export for convenience
 export default claudeCode;
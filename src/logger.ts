@@ -0,0 +1,118 @@
+/**
+ * Leveled logging with secret redaction
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Receives the provider's log messages. `data` has secrets redacted.
+ */
+export interface Logger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Number.POSITIVE_INFINITY,
+};
+
+const DEFAULT_LOG_LEVEL: LogLevel = 'warn';
+// Loggers that already redact, so resolving them again doesn't wrap them twice
+const redactingLoggers = new WeakSet<Logger>();
+const REDACTED = '[REDACTED]';
+// Header and field names that hold credentials
+const SECRET_KEYS = /^(authorization|x-api-key|access_?token|refresh_?token|code_?verifier)$/i;
+// Bearer values and Anthropic OAuth/API tokens inside free text
+const SECRET_PATTERNS = [/(Bearer\s+)[^\s"',]+/gi, /sk-ant-[a-z]+\d*-[A-Za-z0-9_-]+/g];
+
+function redactString(value: string): string {
+  return SECRET_PATTERNS.reduce(
+    (text, pattern) => text.replace(pattern, (_match, prefix?: string) => `${typeof prefix === 'string' ? prefix : ''}${REDACTED}`),
+    value,
+  );
+}
+
+/**
+ * Copy of a value with tokens replaced by `[REDACTED]`: credential fields and
+ * headers by name, and bearer or `sk-ant-` tokens inside strings
+ */
+export function redactSecrets<T>(value: T): T {
+  const seen = new WeakSet<object>();
+
+  const redact = (current: unknown): unknown => {
+    if (typeof current === 'string') return redactString(current);
+    if (typeof current !== 'object' || current === null) return current;
+    if (seen.has(current)) return '[Circular]';
+    seen.add(current);
+
+    if (current instanceof Error) {
+      return { name: current.name, message: redactString(current.message) };
+    }
+    if (Array.isArray(current)) {
+      return current.map(redact);
+    }
+    return Object.fromEntries(Object.entries(current).map(([key, entry]) => [
+      key,
+      SECRET_KEYS.test(key) && typeof entry === 'string' ? REDACTED : redact(entry),
+    ]));
+  };
+
+  return redact(value) as T;
+}
+
+/**
+ * Logger writing to the console, prefixed with [claude-code-oauth]
+ * @param level - Minimum level to write. Defaults to 'warn'
+ */
+export function createConsoleLogger(level: LogLevel = DEFAULT_LOG_LEVEL): Logger {
+  const write = (messageLevel: Exclude<LogLevel, 'silent'>) => (message: string, data?: Record<string, unknown>) => {
+    if (LOG_LEVELS[messageLevel] < LOG_LEVELS[level]) return;
+
+    const line = `[claude-code-oauth] ${redactString(message)}`;
+    if (data) {
+      console[messageLevel](line, redactSecrets(data));
+    } else {
+      console[messageLevel](line);
+    }
+  };
+
+  const logger: Logger = {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+  redactingLoggers.add(logger);
+  return logger;
+}
+
+/**
+ * A logger from a logger or a console log level. Custom loggers get redacted messages and data.
+ */
+export function resolveLogger(logger?: Logger | LogLevel): Logger {
+  if (typeof logger !== 'object') {
+    return createConsoleLogger(logger);
+  }
+  if (redactingLoggers.has(logger)) {
+    return logger;
+  }
+
+  const redacted = (write: Logger['debug']): Logger['debug'] => (message, data) => {
+    write(redactString(message), data && redactSecrets(data));
+  };
+
+  const wrapped: Logger = {
+    debug: redacted(logger.debug.bind(logger)),
+    info: redacted(logger.info.bind(logger)),
+    warn: redacted(logger.warn.bind(logger)),
+    error: redacted(logger.error.bind(logger)),
+  };
+  redactingLoggers.add(wrapped);
+  return wrapped;
+}
@@ -0,0 +1,276 @@
+/**
+ * Built-in catalog of Claude models: limits, capabilities and aliases
+ */
+
+import { callApi, type ClaudeCodeApiConfig } from './api.js';
+
+export type ClaudeCodeModelId =
+  | 'claude-opus-4-5-20251101'
+  | 'claude-opus-4-1-20250805'
+  | 'claude-opus-4-20250514'
+  | 'claude-sonnet-4-5-20250929'
+  | 'claude-sonnet-4-20250514'
+  | 'claude-haiku-4-5-20251001'
+  | 'claude-3-7-sonnet-20250219'
+  | 'claude-3-5-sonnet-20241022'
+  | 'claude-3-5-haiku-20241022'
+  | 'claude-3-opus-20240229'
+  | 'claude-3-haiku-20240307'
+  | ClaudeCodeModelAlias
+  | (string & {});
+
+export type ClaudeCodeModelAlias =
+  | 'opus'
+  | 'sonnet'
+  | 'haiku'
+  | 'claude-opus-4-5'
+  | 'claude-opus-4-1'
+  | 'claude-opus-4-0'
+  | 'claude-sonnet-4-5'
+  | 'claude-sonnet-4-0'
+  | 'claude-haiku-4-5'
+  | 'claude-3-7-sonnet-latest'
+  | 'claude-3-5-sonnet-latest'
+  | 'claude-3-5-haiku-latest'
+  | 'claude-3-opus-latest';
+
+export interface ClaudeCodeModelInfo {
+  id: string;
+  displayName: string;
+  family: 'opus' | 'sonnet' | 'haiku';
+  /** Input plus output tokens the model can handle in one request */
+  contextWindow: number;
+  /** Largest allowed `max_tokens`, also the default `maxTokens` */
+  maxOutputTokens: number;
+  /** Image input */
+  vision: boolean;
+  /** PDF document input */
+  pdf: boolean;
+  /** Extended thinking */
+  thinking: boolean;
+  /** API list prices, for cost equivalents of subscription usage */
+  pricing: ClaudeCodeModelPricing;
+}
+
+/**
+ * API list prices in USD per million tokens
+ */
+export interface ClaudeCodeModelPricing {
+  input: number;
+  output: number;
+  /** Writes to the 5-minute prompt cache */
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+const MODEL_CATALOG: ClaudeCodeModelInfo[] = [
+  {
+    id: 'claude-opus-4-5-20251101',
+    displayName: 'Claude Opus 4.5',
+    family: 'opus',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  },
+  {
+    id: 'claude-opus-4-1-20250805',
+    displayName: 'Claude Opus 4.1',
+    family: 'opus',
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  },
+  {
+    id: 'claude-opus-4-20250514',
+    displayName: 'Claude Opus 4',
+    family: 'opus',
+    contextWindow: 200_000,
+    maxOutputTokens: 32_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  },
+  {
+    id: 'claude-sonnet-4-5-20250929',
+    displayName: 'Claude Sonnet 4.5',
+    family: 'sonnet',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  },
+  {
+    id: 'claude-sonnet-4-20250514',
+    displayName: 'Claude Sonnet 4',
+    family: 'sonnet',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  },
+  {
+    id: 'claude-haiku-4-5-20251001',
+    displayName: 'Claude Haiku 4.5',
+    family: 'haiku',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  },
+  {
+    id: 'claude-3-7-sonnet-20250219',
+    displayName: 'Claude Sonnet 3.7',
+    family: 'sonnet',
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    vision: true,
+    pdf: true,
+    thinking: true,
+    pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  },
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    displayName: 'Claude Sonnet 3.5',
+    family: 'sonnet',
+    contextWindow: 200_000,
+    maxOutputTokens: 8192,
+    vision: true,
+    pdf: true,
+    thinking: false,
+    pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    displayName: 'Claude Haiku 3.5',
+    family: 'haiku',
+    contextWindow: 200_000,
+    maxOutputTokens: 8192,
+    vision: false,
+    pdf: true,
+    thinking: false,
+    pricing: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  },
+  {
+    id: 'claude-3-opus-20240229',
+    displayName: 'Claude Opus 3',
+    family: 'opus',
+    contextWindow: 200_000,
+    maxOutputTokens: 4096,
+    vision: true,
+    pdf: false,
+    thinking: false,
+    pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  },
+  {
+    id: 'claude-3-haiku-20240307',
+    displayName: 'Claude Haiku 3',
+    family: 'haiku',
+    contextWindow: 200_000,
+    maxOutputTokens: 4096,
+    vision: true,
+    pdf: false,
+    thinking: false,
+    pricing: { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+  },
+];
+
+const MODEL_ALIASES: Record<ClaudeCodeModelAlias, string> = {
+  opus: 'claude-opus-4-5-20251101',
+  sonnet: 'claude-sonnet-4-5-20250929',
+  haiku: 'claude-haiku-4-5-20251001',
+  'claude-opus-4-5': 'claude-opus-4-5-20251101',
+  'claude-opus-4-1': 'claude-opus-4-1-20250805',
+  'claude-opus-4-0': 'claude-opus-4-20250514',
+  'claude-sonnet-4-5': 'claude-sonnet-4-5-20250929',
+  'claude-sonnet-4-0': 'claude-sonnet-4-20250514',
+  'claude-haiku-4-5': 'claude-haiku-4-5-20251001',
+  'claude-3-7-sonnet-latest': 'claude-3-7-sonnet-20250219',
+  'claude-3-5-sonnet-latest': 'claude-3-5-sonnet-20241022',
+  'claude-3-5-haiku-latest': 'claude-3-5-haiku-20241022',
+  'claude-3-opus-latest': 'claude-3-opus-20240229',
+};
+
+/**
+ * Resolve an alias such as 'sonnet' to a dated model ID. Other IDs are returned unchanged.
+ */
+export function resolveModelId(modelId: string): string {
+  return MODEL_ALIASES[modelId as ClaudeCodeModelAlias] ?? modelId;
+}
+
+/**
+ * Catalog entry of a model or alias, or undefined for models this provider doesn't know
+ */
+export function getModelInfo(modelId: string): ClaudeCodeModelInfo | undefined {
+  const id = resolveModelId(modelId);
+  return MODEL_CATALOG.find(model => model.id === id);
+}
+
+/**
+ * All catalog entries
+ */
+export function getModelCatalog(): ClaudeCodeModelInfo[] {
+  return MODEL_CATALOG.map(model => ({ ...model, pricing: { ...model.pricing } }));
+}
+
+/**
+ * A model available to the account, from /v1/models
+ */
+export interface ClaudeCodeListedModel {
+  id: string;
+  displayName: string;
+  createdAt: Date;
+  /** Catalog entry, if this provider knows the model */
+  info?: ClaudeCodeModelInfo;
+}
+
+/**
+ * List the models available to the account, following pagination
+ */
+export async function listModels(
+  config: ClaudeCodeApiConfig,
+  options: { abortSignal?: AbortSignal } = {},
+): Promise<ClaudeCodeListedModel[]> {
+  const models: ClaudeCodeListedModel[] = [];
+  let afterId: string | null = null;
+
+  do {
+    const query: string = afterId ? `?limit=1000&after_id=${encodeURIComponent(afterId)}` : '?limit=1000';
+    const { response } = await callApi(config, {
+      path: `/models${query}`,
+      method: 'GET',
+      abortSignal: options.abortSignal,
+    });
+
+    const page = await response.json() as {
+      data: Array<{ id: string; display_name: string; created_at: string }>;
+      has_more: boolean;
+      last_id: string | null;
+    };
+
+    for (const model of page.data) {
+      models.push({
+        id: model.id,
+        displayName: model.display_name,
+        createdAt: new Date(model.created_at),
+        info: getModelInfo(model.id),
+      });
+    }
+
+    afterId = page.has_more ? page.last_id : null;
+  } while (afterId);
+
+  return models;
+}
@@ -0,0 +1,324 @@
+/**
+ * OAuth authorization-code + PKCE login, so credentials can be bootstrapped
+ * without the Claude Code CLI. Uses Claude Code's public OAuth client.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createServer, type Server } from 'http';
+import { createInterface } from 'readline';
+
+import {
+  ANTHROPIC_TOKEN_URL,
+  createFileCredentialStore,
+  type ClaudeCodeCredentials,
+  type CredentialStore,
+} from './credentials.js';
+import { CredentialsNotFoundError, OAuthLoginError } from './errors.js';
+import { resolveLogger, type Logger, type LogLevel } from './logger.js';
+
+const CLAUDE_CODE_CLIENT_ID = '9d1c250a-e61b-44d9-88ed-5944d1962f5e';
+const ANTHROPIC_AUTHORIZE_URL = 'https://claude.ai/oauth/authorize';
+const ANTHROPIC_REVOKE_URL = 'https://console.anthropic.com/v1/oauth/revoke';
+// Page that shows the code to paste, for the paste flow
+const MANUAL_REDIRECT_URL = 'https://console.anthropic.com/oauth/code/callback';
+const DEFAULT_SCOPES = ['org:create_api_key', 'user:profile', 'user:inference'];
+const LOOPBACK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface LoginOptions {
+  /**
+   * 'loopback' (default) receives the code on a local callback server.
+   * 'paste' shows the code in the browser for you to paste, for headless machines.
+   */
+  mode?: 'loopback' | 'paste';
+  /** Where the tokens are written. Defaults to ~/.claude/.credentials.json */
+  credentials?: CredentialStore;
+  /** Called with the URL to open in a browser. Defaults to printing it */
+  onAuthorizeUrl?: (url: string) => void | Promise<void>;
+  /** Paste mode: get the code the user copied. Defaults to a prompt on stdin, which fails if stdin is closed */
+  readCode?: () => Promise<string>;
+  /** Loopback mode: port of the callback server. Defaults to a free port */
+  port?: number;
+  /** Loopback mode: how long to wait for the browser. Defaults to 5 minutes */
+  timeoutMs?: number;
+  /** Cancels the login while waiting for the code or exchanging it */
+  abortSignal?: AbortSignal;
+  /** OAuth endpoints and client, overridable for testing against a stand-in server */
+  authorizeUrl?: string;
+  tokenUrl?: string;
+  clientId?: string;
+  scopes?: string[];
+  fetch?: typeof fetch;
+}
+
+export interface LogoutOptions {
+  /** Credentials to revoke and delete. Defaults to ~/.claude/.credentials.json */
+  credentials?: CredentialStore;
+  revokeUrl?: string;
+  clientId?: string;
+  fetch?: typeof fetch;
+  /** Logger or console log level for revocation failures */
+  logger?: Logger | LogLevel;
+}
+
+/**
+ * Run the OAuth login flow and save the resulting credentials
+ */
+export async function login(options: LoginOptions = {}): Promise<ClaudeCodeCredentials> {
+  options.abortSignal?.throwIfAborted();
+
+  const store = options.credentials ?? createFileCredentialStore();
+  const clientId = options.clientId ?? CLAUDE_CODE_CLIENT_ID;
+
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  const state = randomBytes(32).toString('base64url');
+
+  const authorize = async (redirectUri: string) => {
+    const url = new URL(options.authorizeUrl ?? ANTHROPIC_AUTHORIZE_URL);
+    url.search = new URLSearchParams({
+      code: 'true',
+      client_id: clientId,
+      response_type: 'code',
+      redirect_uri: redirectUri,
+      scope: (options.scopes ?? DEFAULT_SCOPES).join(' '),
+      code_challenge: challenge,
+      code_challenge_method: 'S256',
+      state,
+    }).toString();
+
+    await (options.onAuthorizeUrl ?? printAuthorizeUrl)(url.toString());
+  };
+
+  let code: string;
+  let redirectUri: string;
+
+  if (options.mode === 'paste') {
+    redirectUri = MANUAL_REDIRECT_URL;
+    await authorize(redirectUri);
+
+    // The callback page shows `code#state`
+    const pasted = (await (options.readCode
+      ? withAbort(options.readCode(), options.abortSignal)
+      : readCodeFromStdin(options.abortSignal))).trim();
+    const [pastedCode, pastedState] = pasted.split('#');
+    if (!pastedCode) {
+      throw new OAuthLoginError({ message: 'No authorization code was entered' });
+    }
+    if (pastedState !== undefined && pastedState !== state) {
+      throw new OAuthLoginError({ message: 'OAuth state mismatch: the pasted code belongs to a different login' });
+    }
+    code = pastedCode;
+  } else {
+    const callback = await startCallbackServer(state, options);
+    redirectUri = callback.redirectUri;
+    try {
+      await authorize(redirectUri);
+      code = await callback.code;
+    } finally {
+      callback.close();
+    }
+  }
+
+  const response = await (options.fetch ?? fetch)(options.tokenUrl ?? ANTHROPIC_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      grant_type: 'authorization_code',
+      code,
+      state,
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      code_verifier: verifier,
+    }),
+    signal: options.abortSignal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new OAuthLoginError({
+      message: `Failed to exchange authorization code: ${response.status} ${errorText}`,
+      statusCode: response.status,
+      responseBody: errorText,
+    });
+  }
+
+  const data = await response.json() as {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number;
+    scope?: string;
+    organization?: { uuid: string };
+  };
+
+  const credentials: ClaudeCodeCredentials = {
+    claudeAiOauth: {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: Date.now() + (data.expires_in * 1000),
+      scopes: data.scope ? data.scope.split(' ') : options.scopes ?? DEFAULT_SCOPES,
+      subscriptionType: null,
+      rateLimitTier: null,
+    },
+    organizationUuid: data.organization?.uuid ?? '',
+  };
+
+  await store.write(credentials);
+  return credentials;
+}
+
+/**
+ * Revoke the stored refresh token and delete the credentials.
+ * Credentials are deleted even if revocation fails; `revoked` reports whether it succeeded.
+ */
+export async function logout(options: LogoutOptions = {}): Promise<{ revoked: boolean; cleared: boolean }> {
+  const store = options.credentials ?? createFileCredentialStore();
+
+  let credentials: ClaudeCodeCredentials;
+  try {
+    credentials = await store.read();
+  } catch (error) {
+    if (CredentialsNotFoundError.isInstance(error)) {
+      return { revoked: false, cleared: false };
+    }
+    throw error;
+  }
+
+  let revoked = false;
+  try {
+    const response = await (options.fetch ?? fetch)(options.revokeUrl ?? ANTHROPIC_REVOKE_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        token: credentials.claudeAiOauth.refreshToken,
+        token_type_hint: 'refresh_token',
+        client_id: options.clientId ?? CLAUDE_CODE_CLIENT_ID,
+      }),
+    });
+    revoked = response.ok;
+    await response.body?.cancel();
+  } catch (error) {
+    resolveLogger(options.logger).warn('Failed to revoke token', { error });
+  }
+
+  if (!store.clear) {
+    return { revoked, cleared: false };
+  }
+
+  await store.clear();
+  return { revoked, cleared: true };
+}
+
+function printAuthorizeUrl(url: string): void {
+  console.log(`Open this URL in your browser to log in:\n\n${url}\n`);
+}
+
+/**
+ * Settle with a promise, or reject with the signal's reason if it aborts first
+ */
+function withAbort<T>(promise: Promise<T>, abortSignal?: AbortSignal): Promise<T> {
+  if (!abortSignal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortSignal.reason);
+    abortSignal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => abortSignal.removeEventListener('abort', onAbort));
+  });
+}
+
+async function readCodeFromStdin(abortSignal?: AbortSignal): Promise<string> {
+  const readline = createInterface({ input: process.stdin, output: process.stderr });
+  return new Promise<string>((resolve, reject) => {
+    const onAbort = () => {
+      reject(abortSignal!.reason);
+      readline.close();
+    };
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    // Also emitted at end of input; rejecting after the answer resolved is a no-op
+    readline.once('close', () => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      reject(new OAuthLoginError({ message: 'Input ended before an authorization code was entered' }));
+    });
+    readline.question('Paste the authorization code: ', answer => {
+      resolve(answer);
+      readline.close();
+    });
+  });
+}
+
+/**
+ * Listen on localhost for the OAuth redirect and resolve with its code
+ */
+async function startCallbackServer(
+  state: string,
+  options: Pick<LoginOptions, 'port' | 'timeoutMs' | 'abortSignal'>,
+): Promise<{ redirectUri: string; code: Promise<string>; close(): void }> {
+  let resolveCode!: (code: string) => void;
+  let rejectCode!: (error: unknown) => void;
+  const code = new Promise<string>((resolve, reject) => {
+    resolveCode = resolve;
+    rejectCode = reject;
+  });
+  // Avoid an unhandled rejection if the flow fails before the code is awaited
+  code.catch(() => {});
+
+  const server: Server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/callback') {
+      response.writeHead(404).end();
+      return;
+    }
+
+    const error = url.searchParams.get('error');
+    const receivedCode = url.searchParams.get('code');
+
+    if (error || !receivedCode) {
+      response.writeHead(400, { 'Content-Type': 'text/plain' }).end('Login failed. You can close this tab.');
+      rejectCode(new OAuthLoginError({
+        message: `Authorization failed: ${url.searchParams.get('error_description') ?? error ?? 'no code received'}`,
+      }));
+      return;
+    }
+
+    if (url.searchParams.get('state') !== state) {
+      response.writeHead(400, { 'Content-Type': 'text/plain' }).end('Login failed. You can close this tab.');
+      rejectCode(new OAuthLoginError({ message: 'OAuth state mismatch in callback' }));
+      return;
+    }
+
+    response.writeHead(200, { 'Content-Type': 'text/plain' }).end('Login complete. You can close this tab.');
+    resolveCode(receivedCode);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    // The same name as the redirect URI, so the browser reaches the address it resolves to
+    server.listen(options.port ?? 0, 'localhost', () => resolve());
+  });
+
+  const timeoutMs = options.timeoutMs ?? LOOPBACK_TIMEOUT_MS;
+  const timeout = setTimeout(() => {
+    rejectCode(new OAuthLoginError({ message: `No OAuth callback received within ${timeoutMs / 1000}s` }));
+  }, timeoutMs);
+
+  const onAbort = () => rejectCode(options.abortSignal!.reason);
+  options.abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+  const { port } = server.address() as { port: number };
+
+  return {
+    redirectUri: `http://localhost:${port}/callback`,
+    code,
+    close() {
+      clearTimeout(timeout);
+      options.abortSignal?.removeEventListener('abort', onAbort);
+      server.close();
+      // Browsers keep the callback connection alive
+      server.closeAllConnections();
+    },
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Translation between OpenAI Chat Completions and the Anthropic Messages API,
+ * for the proxy server's `/v1/chat/completions` endpoint
+ */
+
+import { InvalidArgumentError } from '@ai-sdk/provider';
+
+import { getModelInfo, resolveModelId } from './models.js';
+import type { AnthropicMessageResponse } from './provider.js';
+import type { SSEEvent } from './sse.js';
+import type {
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicMessage,
+  AnthropicTextBlock,
+  AnthropicTool,
+} from './anthropic-api-types.js';
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export type OpenAIChatMessage =
+  | { role: 'system' | 'developer'; content: string | Array<{ type: 'text'; text: string }> }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content?: string | Array<{ type: 'text'; text: string }> | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string | Array<{ type: 'text'; text: string }> };
+
+/**
+ * Chat Completions request body (the subset that maps onto the Messages API)
+ */
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop?: string | string[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: Array<{ type: 'function'; function: { name: string; description?: string; parameters?: unknown } }>;
+  tool_choice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+  parallel_tool_calls?: boolean;
+  user?: string;
+}
+
+// max_tokens when the request sets none and the model is missing from the catalog, as for language models
+const DEFAULT_MAX_TOKENS = 4096;
+
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  pause_turn: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+function textOf(content: string | Array<{ type: 'text'; text: string }> | null | undefined): string {
+  if (!content) return '';
+  return typeof content === 'string' ? content : content.map(part => part.text).join('');
+}
+
+function convertImage(url: string): AnthropicImageBlock {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return {
+    type: 'image',
+    source: match
+      ? { type: 'base64', media_type: match[1], data: match[2] }
+      : { type: 'url', url },
+  };
+}
+
+/**
+ * Convert a Chat Completions request to a Messages API request body.
+ * System and developer messages become the system prompt; tool messages become
+ * `tool_result` blocks, grouped into one user turn when they follow each other.
+ * Assistant messages without text or tool calls are left out.
+ */
+export function convertChatRequest(request: OpenAIChatRequest): Record<string, unknown> {
+  if (!request.model || !Array.isArray(request.messages)) {
+    throw new InvalidArgumentError({ argument: 'messages', message: '`model` and `messages` are required' });
+  }
+
+  const model = resolveModelId(request.model);
+  const system: AnthropicTextBlock[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  const append = (role: 'user' | 'assistant', blocks: AnthropicContentBlock[]) => {
+    const last = messages[messages.length - 1];
+    // Results of parallel tool calls go back in a single user turn
+    if (blocks[0]?.type === 'tool_result' && last?.role === 'user' && Array.isArray(last.content)) {
+      last.content.push(...blocks);
+    } else {
+      messages.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of request.messages) {
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        system.push({ type: 'text', text: textOf(message.content) });
+        break;
+
+      case 'user':
+        append('user', typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            : convertImage(part.image_url.url)));
+        break;
+
+      case 'assistant': {
+        const blocks: AnthropicContentBlock[] = [];
+        const text = textOf(message.content);
+        if (text) {
+          blocks.push({ type: 'text', text });
+        }
+        for (const call of message.tool_calls ?? []) {
+          let input: unknown = {};
+          try {
+            input = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+          } catch {
+            // Keep unparsable arguments visible to the model
+            input = { arguments: call.function.arguments };
+          }
+          blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input });
+        }
+        // The API rejects empty content, and an empty turn carries nothing
+        if (blocks.length > 0) {
+          append('assistant', blocks);
+        }
+        break;
+      }
+
+      case 'tool':
+        append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: textOf(message.content) }]);
+        break;
+    }
+  }
+
+  const body: Record<string, unknown> = {
+    model,
+    messages,
+    max_tokens: request.max_completion_tokens ?? request.max_tokens ?? getModelInfo(model)?.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+  };
+
+  if (system.length > 0) body.system = system;
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.top_p !== undefined) body.top_p = request.top_p;
+  if (request.stop !== undefined) body.stop_sequences = typeof request.stop === 'string' ? [request.stop] : request.stop;
+  if (request.stream) body.stream = true;
+  if (request.user) body.metadata = { user_id: request.user };
+
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((tool): AnthropicTool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? { type: 'object', properties: {} },
+    }));
+
+    const choice = request.tool_choice;
+    const toolChoice: Record<string, unknown> =
+      choice === 'none' ? { type: 'none' }
+        : choice === 'required' ? { type: 'any' }
+          : typeof choice === 'object' ? { type: 'tool', name: choice.function.name }
+            : { type: 'auto' };
+    if (request.parallel_tool_calls === false && toolChoice.type !== 'none') {
+      toolChoice.disable_parallel_tool_use = true;
+    }
+    body.tool_choice = toolChoice;
+  }
+
+  return body;
+}
+
+function convertUsage(usage: Partial<AnthropicMessageResponse['usage']>) {
+  const promptTokens = (usage.input_tokens ?? 0)
+    + (usage.cache_creation_input_tokens ?? 0)
+    + (usage.cache_read_input_tokens ?? 0);
+  const completionTokens = usage.output_tokens ?? 0;
+
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    prompt_tokens_details: { cached_tokens: usage.cache_read_input_tokens ?? 0 },
+  };
+}
+
+/**
+ * Convert a Messages API response to a Chat Completions response.
+ * Thinking blocks are dropped; tool calls keep their Anthropic IDs.
+ */
+export function convertChatResponse(data: AnthropicMessageResponse): Record<string, unknown> {
+  const text = data.content
+    .filter(block => block.type === 'text')
+    .map(block => block.text ?? '')
+    .join('');
+  const toolCalls: OpenAIToolCall[] = data.content
+    .filter(block => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id!,
+      type: 'function',
+      function: { name: block.name!, arguments: JSON.stringify(block.input ?? {}) },
+    }));
+
+  return {
+    id: data.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: data.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || (toolCalls.length > 0 ? null : ''),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: FINISH_REASONS[data.stop_reason] ?? 'stop',
+    }],
+    usage: convertUsage(data.usage),
+  };
+}
+
+/**
+ * Turns Messages API stream events into Chat Completions chunks
+ */
+export class ChatStreamTranslator {
+  private id = '';
+  private model: string;
+  private readonly created = Math.floor(Date.now() / 1000);
+  private readonly includeUsage: boolean;
+  private usage: Partial<AnthropicMessageResponse['usage']> = {};
+  private finishReason = 'stop';
+  // Tool call index by content block index
+  private readonly toolCalls = new Map<number, number>();
+
+  constructor(request: Pick<OpenAIChatRequest, 'model' | 'stream_options'>) {
+    this.model = request.model;
+    this.includeUsage = request.stream_options?.include_usage ?? false;
+  }
+
+  /**
+   * Chunks to send for one upstream event. `[DONE]` is returned after the final chunk.
+   */
+  translate(event: SSEEvent): Array<Record<string, unknown> | '[DONE]'> {
+    const data = JSON.parse(event.data);
+
+    switch (data.type) {
+      case 'message_start':
+        this.id = data.message.id;
+        this.model = data.message.model ?? this.model;
+        this.usage = { ...data.message.usage };
+        return [this.chunk({ role: 'assistant', content: '' })];
+
+      case 'content_block_start':
+        if (data.content_block.type === 'tool_use') {
+          const index = this.toolCalls.size;
+          this.toolCalls.set(data.index, index);
+          return [this.chunk({
+            tool_calls: [{
+              index,
+              id: data.content_block.id,
+              type: 'function',
+              function: { name: data.content_block.name, arguments: '' },
+            }],
+          })];
+        }
+        return [];
+
+      case 'content_block_delta':
+        if (data.delta.type === 'text_delta') {
+          return [this.chunk({ content: data.delta.text })];
+        }
+        if (data.delta.type === 'input_json_delta' && this.toolCalls.has(data.index)) {
+          return [this.chunk({
+            tool_calls: [{ index: this.toolCalls.get(data.index), function: { arguments: data.delta.partial_json } }],
+          })];
+        }
+        return [];
+
+      case 'message_delta':
+        this.finishReason = FINISH_REASONS[data.delta?.stop_reason] ?? 'stop';
+        this.usage = { ...this.usage, ...data.usage };
+        return [];
+
+      case 'message_stop':
+        return [
+          this.chunk({}, this.finishReason),
+          ...(this.includeUsage ? [{ ...this.chunk({}), choices: [], usage: convertUsage(this.usage) }] : []),
+          '[DONE]',
+        ];
+
+      case 'error':
+        return [{ error: { message: data.error?.message ?? 'Stream error', type: data.error?.type ?? 'api_error' } }, '[DONE]'];
+
+      default:
+        return [];
+    }
+  }
+
+  private chunk(delta: Record<string, unknown>, finishReason: string | null = null): Record<string, unknown> {
+    return {
+      id: this.id,
+      object: 'chat.completion.chunk',
+      created: this.created,
+      model: this.model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    };
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Multi-account credential pool with rate-limit failover
+ *
+ * Each account has its own CredentialManager (cache and refresh state). A
+ * request goes to one account picked by the pool's strategy; when an account
+ * is rate limited it cools down until its reported reset time, and the
+ * request is retried on another account.
+ */
+
+import { createHash } from 'crypto';
+import { InvalidArgumentError } from '@ai-sdk/provider';
+
+import {
+  CredentialManager,
+  createFileCredentialStore,
+  type ClaudeCodeCredentialEvent,
+  type CredentialStore,
+} from './credentials.js';
+import { resolveLogger, type Logger, type LogLevel } from './logger.js';
+import type { QuotaSnapshot } from './quota.js';
+import type { Tracer } from './telemetry.js';
+
+/**
+ * How the pool picks an account for a request.
+ * - 'round-robin': rotate through available accounts
+ * - 'least-recently-limited': prefer the account that was rate limited longest ago
+ * - 'sticky': keep a conversation on one account (keyed by its first message),
+ *   which also keeps its prompt cache warm
+ */
+export type CredentialPoolStrategy = 'round-robin' | 'least-recently-limited' | 'sticky';
+
+export interface CredentialPoolOptions {
+  /** Defaults to 'round-robin' */
+  strategy?: CredentialPoolStrategy;
+  /** Cooldown when a rate-limited response carries no reset time. Defaults to 60 seconds */
+  defaultCooldownMs?: number;
+  /** Custom fetch implementation used for token refresh */
+  fetch?: typeof fetch;
+  /** OAuth token endpoint used for refresh */
+  tokenUrl?: string;
+  /** Logger or console log level. Defaults to console warnings and errors */
+  logger?: Logger | LogLevel;
+  /** OpenTelemetry tracer for token refresh spans */
+  tracer?: Tracer;
+  /** Called when an account's token is refreshed, expires, or its store gets new credentials */
+  onCredentialEvent?: (event: ClaudeCodeCredentialEvent) => void;
+}
+
+export interface CredentialPoolAccount {
+  /** The store's description, e.g. the credentials file path */
+  readonly id: string;
+  readonly credentials: CredentialManager;
+  /** Epoch milliseconds until which the account is skipped, 0 if available */
+  cooldownUntil: number;
+  /** Epoch milliseconds of the last rate limit, 0 if never limited */
+  lastLimitedAt: number;
+  /** Latest quota snapshot of this account */
+  quota: QuotaSnapshot | null;
+}
+
+const DEFAULT_COOLDOWN_MS = 60_000;
+
+/**
+ * Key identifying a conversation across turns: its system prompt and first message
+ */
+export function getConversationKey(body: unknown): string | undefined {
+  const { system, messages } = (body ?? {}) as { system?: unknown; messages?: unknown[] };
+  if (!messages || messages.length === 0) return undefined;
+
+  return createHash('sha256').update(JSON.stringify([system, messages[0]])).digest('hex');
+}
+
+/**
+ * When a rate-limited account can be used again, from the 429 response's quota headers
+ */
+function getCooldownUntil(snapshot: QuotaSnapshot | undefined, defaultCooldownMs: number): number {
+  const now = Date.now();
+
+  if (snapshot?.retryAfterSeconds !== undefined) {
+    return now + snapshot.retryAfterSeconds * 1000;
+  }
+
+  if (snapshot?.subscription?.status === 'rejected' && snapshot.subscription.resetsAt) {
+    return snapshot.subscription.resetsAt;
+  }
+
+  const resets = [snapshot?.requests, snapshot?.tokens, snapshot?.inputTokens, snapshot?.outputTokens]
+    .filter(window => window?.remaining === 0 && window.resetsAt)
+    .map(window => window!.resetsAt!);
+
+  return resets.length > 0 ? Math.max(...resets) : now + defaultCooldownMs;
+}
+
+export class CredentialPool {
+  readonly strategy: CredentialPoolStrategy;
+  readonly accounts: readonly CredentialPoolAccount[];
+
+  private readonly defaultCooldownMs: number;
+  private readonly logger: Logger;
+  private nextIndex = 0;
+
+  /**
+   * @param sources - Credential stores, or paths of credential files
+   */
+  constructor(sources: Array<CredentialStore | string>, options: CredentialPoolOptions = {}) {
+    if (sources.length === 0) {
+      throw new InvalidArgumentError({ argument: 'accounts', message: 'A credential pool needs at least one account' });
+    }
+
+    this.strategy = options.strategy ?? 'round-robin';
+    this.defaultCooldownMs = options.defaultCooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this.logger = resolveLogger(options.logger);
+
+    const ids = new Set<string>();
+    this.accounts = sources.map((source, index) => {
+      const store = typeof source === 'string' ? createFileCredentialStore(source) : source;
+      const id = ids.has(store.description) ? `${store.description}#${index}` : store.description;
+      ids.add(id);
+
+      return {
+        id,
+        credentials: new CredentialManager(store, {
+          fetch: options.fetch,
+          tokenUrl: options.tokenUrl,
+          logger: this.logger,
+          tracer: options.tracer,
+          onEvent: options.onCredentialEvent,
+        }),
+        cooldownUntil: 0,
+        lastLimitedAt: 0,
+        quota: null,
+      };
+    });
+  }
+
+  /**
+   * Pick an account for a request, skipping accounts already tried for it.
+   * If every account is cooling down, the first attempt goes to the one that
+   * resets soonest; once one attempt has failed, undefined is returned.
+   */
+  select(conversationKey?: string, tried: ReadonlySet<string> = new Set()): CredentialPoolAccount | undefined {
+    const now = Date.now();
+    const untried = this.accounts.filter(account => !tried.has(account.id));
+    const available = untried.filter(account => account.cooldownUntil <= now);
+
+    if (available.length === 0) {
+      if (tried.size > 0 || untried.length === 0) return undefined;
+      return untried.reduce((soonest, account) => account.cooldownUntil < soonest.cooldownUntil ? account : soonest);
+    }
+
+    switch (this.strategy) {
+      case 'least-recently-limited':
+        return available.reduce((best, account) => account.lastLimitedAt < best.lastLimitedAt ? account : best);
+
+      case 'sticky': {
+        if (conversationKey) {
+          // Hash onto the full account list so a conversation keeps its account while it's available
+          const preferred = this.accounts[parseInt(conversationKey.slice(0, 8), 16) % this.accounts.length];
+          if (available.includes(preferred)) return preferred;
+        }
+        return available[0];
+      }
+
+      default: {
+        const start = this.nextIndex % this.accounts.length;
+        this.nextIndex++;
+        // First available account at or after the rotation position
+        return [...this.accounts.slice(start), ...this.accounts.slice(0, start)]
+          .find(account => available.includes(account));
+      }
+    }
+  }
+
+  /**
+   * Record the quota snapshot of a successful response
+   */
+  record(account: CredentialPoolAccount, snapshot: QuotaSnapshot | undefined): void {
+    if (!snapshot) return;
+    account.quota = snapshot;
+
+    // The subscription limit was hit by this request; later ones would be rejected
+    if (snapshot.subscription?.status === 'rejected') {
+      this.markLimited(account, snapshot);
+    }
+  }
+
+  /**
+   * Put a rate-limited account on cooldown until its reset time
+   */
+  markLimited(account: CredentialPoolAccount, snapshot: QuotaSnapshot | undefined): void {
+    const now = Date.now();
+    account.lastLimitedAt = now;
+    account.cooldownUntil = getCooldownUntil(snapshot, this.defaultCooldownMs);
+    if (snapshot) {
+      account.quota = snapshot;
+    }
+    this.logger.info(`Account ${account.id} rate limited until ${new Date(account.cooldownUntil).toISOString()}`);
+  }
+}
@@ -0,0 +1,432 @@
+/**
+ * LanguageModelV2 (AI SDK 5) implementation
+ *
+ * Wraps the v1 model: v2 call options and prompts are mapped to v1, so both
+ * SDK generations share request building, auth and response parsing. Results
+ * are mapped back to the v2 content array, start/delta/end stream parts and
+ * the v2 usage shape.
+ */
+
+import type {
+  LanguageModelV1CallOptions,
+  LanguageModelV1CallWarning,
+  LanguageModelV1Message,
+  LanguageModelV1Prompt,
+  LanguageModelV1ProviderMetadata,
+  LanguageModelV1StreamPart,
+} from '@ai-sdk/provider';
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2Content,
+  LanguageModelV2DataContent,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2ToolResultOutput,
+  LanguageModelV2Usage,
+  SharedV2ProviderMetadata,
+} from '@ai-sdk/provider-v2';
+
+import {
+  ClaudeCodeLanguageModel,
+  type ClaudeCodeModelConfig,
+  type ClaudeCodeModelId,
+  type ClaudeCodeModelSettings,
+} from './provider.js';
+
+type V1Part<ROLE extends LanguageModelV1Message['role']> = Extract<
+  LanguageModelV1Message,
+  { role: ROLE }
+>['content'] extends Array<infer PART> | string ? PART : never;
+
+function toBase64(data: Uint8Array | string): string {
+  return typeof data === 'string' ? data : Buffer.from(data).toString('base64');
+}
+
+function toBytes(data: Uint8Array | string): Uint8Array {
+  return typeof data === 'string' ? Buffer.from(data, 'base64') : data;
+}
+
+/**
+ * Map a v2 file part to a v1 image or file part
+ */
+function convertFilePart(part: {
+  data: LanguageModelV2DataContent;
+  mediaType: string;
+  filename?: string;
+  providerOptions?: LanguageModelV1ProviderMetadata;
+}): V1Part<'user'> {
+  const { data, mediaType, filename, providerOptions } = part;
+
+  if (mediaType.startsWith('image/')) {
+    return {
+      type: 'image',
+      image: data instanceof URL ? data : toBytes(data),
+      mimeType: mediaType === 'image/*' ? undefined : mediaType,
+      providerMetadata: providerOptions,
+    };
+  }
+
+  return {
+    type: 'file',
+    data: data instanceof URL ? data : toBase64(data),
+    mimeType: mediaType,
+    filename,
+    providerMetadata: providerOptions,
+  };
+}
+
+/**
+ * Map a v2 tool output to the v1 result, error flag and multi-part content
+ */
+function convertToolOutput(output: LanguageModelV2ToolResultOutput): {
+  result: unknown;
+  isError?: boolean;
+  content?: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType?: string }>;
+} {
+  switch (output.type) {
+    case 'text':
+    case 'json':
+      return { result: output.value };
+    case 'error-text':
+    case 'error-json':
+      return { result: output.value, isError: true };
+    case 'content':
+      return {
+        result: output.value,
+        content: output.value.map(part => part.type === 'text'
+          ? { type: 'text' as const, text: part.text }
+          : { type: 'image' as const, data: part.data, mimeType: part.mediaType }),
+      };
+  }
+}
+
+/**
+ * Convert a v2 prompt to v1. Reasoning signatures and redacted thinking travel in
+ * `providerOptions.anthropic`, as the v2 output reports them.
+ */
+function convertPromptV2(prompt: LanguageModelV2Prompt): LanguageModelV1Prompt {
+  return prompt.map((message): LanguageModelV1Message => {
+    const providerMetadata = message.providerOptions;
+
+    switch (message.role) {
+      case 'system':
+        return { role: 'system', content: message.content, providerMetadata };
+
+      case 'user':
+        return {
+          role: 'user',
+          content: message.content.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text, providerMetadata: part.providerOptions }
+            : convertFilePart(part)),
+          providerMetadata,
+        };
+
+      case 'assistant': {
+        const content: Array<V1Part<'assistant'>> = [];
+
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            content.push({ type: 'text', text: part.text, providerMetadata: part.providerOptions });
+          } else if (part.type === 'file') {
+            content.push({
+              type: 'file',
+              data: part.data instanceof URL ? part.data : toBase64(part.data),
+              mimeType: part.mediaType,
+              filename: part.filename,
+              providerMetadata: part.providerOptions,
+            });
+          } else if (part.type === 'reasoning') {
+            const anthropic = part.providerOptions?.anthropic as
+              | { signature?: string; redactedData?: string }
+              | undefined;
+
+            if (anthropic?.redactedData) {
+              content.push({ type: 'redacted-reasoning', data: anthropic.redactedData });
+            } else {
+              content.push({ type: 'reasoning', text: part.text, signature: anthropic?.signature });
+            }
+          } else if (part.type === 'tool-call' && !part.providerExecuted) {
+            content.push({
+              type: 'tool-call',
+              toolCallId: part.toolCallId,
+              toolName: part.toolName,
+              args: part.input,
+              providerMetadata: part.providerOptions,
+            });
+          }
+          // Server tool calls and results have no V1 prompt part, so they're dropped; the text that used them stays
+        }
+
+        return { role: 'assistant', content, providerMetadata };
+      }
+
+      case 'tool':
+        return {
+          role: 'tool',
+          content: message.content.map(part => ({
+            type: 'tool-result',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            ...convertToolOutput(part.output),
+            providerMetadata: part.providerOptions,
+          })),
+          providerMetadata,
+        };
+    }
+  });
+}
+
+/**
+ * Map v2 call options to v1. JSON response format becomes object-json mode.
+ */
+function convertCallOptions(options: LanguageModelV2CallOptions): LanguageModelV1CallOptions {
+  const { responseFormat, tools, toolChoice } = options;
+
+  return {
+    inputFormat: 'messages',
+    mode: responseFormat?.type === 'json'
+      ? { type: 'object-json', schema: responseFormat.schema, name: responseFormat.name, description: responseFormat.description }
+      : {
+        type: 'regular',
+        tools: tools?.map(tool => tool.type === 'function'
+          ? { type: 'function', name: tool.name, description: tool.description, parameters: tool.inputSchema }
+          : tool),
+        toolChoice,
+      },
+    prompt: convertPromptV2(options.prompt),
+    maxTokens: options.maxOutputTokens,
+    temperature: options.temperature,
+    stopSequences: options.stopSequences,
+    topP: options.topP,
+    topK: options.topK,
+    presencePenalty: options.presencePenalty,
+    frequencyPenalty: options.frequencyPenalty,
+    seed: options.seed,
+    abortSignal: options.abortSignal,
+    headers: options.headers,
+    providerMetadata: options.providerOptions,
+  };
+}
+
+function convertWarnings(
+  warnings: LanguageModelV1CallWarning[] | undefined,
+  options: LanguageModelV2CallOptions,
+): LanguageModelV2CallWarning[] {
+  return (warnings ?? []).map((warning): LanguageModelV2CallWarning => {
+    if (warning.type === 'unsupported-setting') {
+      return {
+        ...warning,
+        setting: warning.setting === 'maxTokens' ? 'maxOutputTokens' : warning.setting,
+      };
+    }
+
+    if (warning.type === 'unsupported-tool') {
+      // Report the tool as the caller passed it
+      const tool = options.tools?.find(candidate => candidate.name === warning.tool.name);
+      return tool ? { ...warning, tool } : { type: 'other', message: warning.details ?? `Unsupported tool ${warning.tool.name}` };
+    }
+
+    return warning;
+  });
+}
+
+/**
+ * v2 usage from v1 token counts; cache reads are reported as cached input tokens
+ */
+function convertUsage(
+  usage: { promptTokens: number; completionTokens: number },
+  providerMetadata: LanguageModelV1ProviderMetadata | undefined,
+): LanguageModelV2Usage {
+  const cacheRead = providerMetadata?.anthropic?.cacheReadInputTokens;
+
+  return {
+    inputTokens: usage.promptTokens,
+    outputTokens: usage.completionTokens,
+    totalTokens: usage.promptTokens + usage.completionTokens,
+    cachedInputTokens: typeof cacheRead === 'number' ? cacheRead : undefined,
+  };
+}
+
+/**
+ * Claude Code OAuth model for AI SDK 5 (`LanguageModelV2`)
+ */
+export class ClaudeCodeLanguageModelV2 implements LanguageModelV2 {
+  readonly specificationVersion = 'v2' as const;
+  readonly provider = 'claude-code-oauth';
+  readonly supportedUrls: Record<string, RegExp[]> = {
+    'image/*': [/^https?:\/\/.*$/],
+    'application/pdf': [/^https?:\/\/.*$/],
+  };
+
+  /** The v1 model doing the work */
+  readonly model: ClaudeCodeLanguageModel;
+
+  constructor(modelId: ClaudeCodeModelId, settings: ClaudeCodeModelSettings = {}, config: ClaudeCodeModelConfig = {}) {
+    this.model = new ClaudeCodeLanguageModel(modelId, settings, config);
+  }
+
+  get modelId(): string {
+    return this.model.modelId;
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions): Promise<Awaited<ReturnType<LanguageModelV2['doGenerate']>>> {
+    const result = await this.model.doGenerate(convertCallOptions(options));
+    const content: LanguageModelV2Content[] = [];
+
+    for (const reasoning of result.reasoning ?? []) {
+      content.push(reasoning.type === 'text'
+        ? {
+          type: 'reasoning',
+          text: reasoning.text,
+          providerMetadata: reasoning.signature ? { anthropic: { signature: reasoning.signature } } : undefined,
+        }
+        : { type: 'reasoning', text: '', providerMetadata: { anthropic: { redactedData: reasoning.data } } });
+    }
+
+    if (result.text !== undefined) {
+      content.push({ type: 'text', text: result.text });
+    }
+
+    for (const source of result.sources ?? []) {
+      content.push({ type: 'source', ...source });
+    }
+
+    for (const toolCall of result.toolCalls ?? []) {
+      content.push({
+        type: 'tool-call',
+        toolCallId: toolCall.toolCallId,
+        toolName: toolCall.toolName,
+        input: toolCall.args,
+      });
+    }
+
+    return {
+      content,
+      finishReason: result.finishReason,
+      usage: convertUsage(result.usage, result.providerMetadata),
+      providerMetadata: result.providerMetadata as SharedV2ProviderMetadata | undefined,
+      request: { body: result.rawCall.rawSettings },
+      response: {
+        ...result.response,
+        headers: result.rawResponse?.headers,
+        body: result.rawResponse?.body,
+      },
+      warnings: convertWarnings(result.warnings, options),
+    };
+  }
+
+  async doStream(options: LanguageModelV2CallOptions): Promise<Awaited<ReturnType<LanguageModelV2['doStream']>>> {
+    const result = await this.model.doStream(convertCallOptions(options));
+    const warnings = convertWarnings(result.warnings, options);
+
+    // Open text or reasoning block; v2 streams frame each block with start and end parts
+    let open: { type: 'text' | 'reasoning'; id: string } | undefined;
+    let blockCount = 0;
+    const startedToolInputs = new Set<string>();
+
+    const stream = result.stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV2StreamPart>({
+      start(controller) {
+        controller.enqueue({ type: 'stream-start', warnings });
+      },
+
+      transform(part, controller) {
+        const close = () => {
+          if (!open) return;
+          controller.enqueue({ type: open.type === 'text' ? 'text-end' : 'reasoning-end', id: open.id });
+          open = undefined;
+        };
+
+        const ensureOpen = (type: 'text' | 'reasoning') => {
+          if (open?.type === type) return open.id;
+          close();
+          open = { type, id: String(blockCount++) };
+          controller.enqueue({ type: type === 'text' ? 'text-start' : 'reasoning-start', id: open.id });
+          return open.id;
+        };
+
+        switch (part.type) {
+          case 'text-delta':
+            controller.enqueue({ type: 'text-delta', id: ensureOpen('text'), delta: part.textDelta });
+            break;
+
+          case 'reasoning':
+            controller.enqueue({ type: 'reasoning-delta', id: ensureOpen('reasoning'), delta: part.textDelta });
+            break;
+
+          case 'reasoning-signature':
+            // The signature arrives at the end of a thinking block
+            controller.enqueue({
+              type: 'reasoning-delta',
+              id: ensureOpen('reasoning'),
+              delta: '',
+              providerMetadata: { anthropic: { signature: part.signature } },
+            });
+            close();
+            break;
+
+          case 'redacted-reasoning': {
+            close();
+            const id = String(blockCount++);
+            controller.enqueue({ type: 'reasoning-start', id, providerMetadata: { anthropic: { redactedData: part.data } } });
+            controller.enqueue({ type: 'reasoning-end', id });
+            break;
+          }
+
+          case 'tool-call-delta':
+            close();
+            if (!startedToolInputs.has(part.toolCallId)) {
+              startedToolInputs.add(part.toolCallId);
+              controller.enqueue({ type: 'tool-input-start', id: part.toolCallId, toolName: part.toolName });
+            }
+            if (part.argsTextDelta) {
+              controller.enqueue({ type: 'tool-input-delta', id: part.toolCallId, delta: part.argsTextDelta });
+            }
+            break;
+
+          case 'tool-call':
+            close();
+            if (startedToolInputs.delete(part.toolCallId)) {
+              controller.enqueue({ type: 'tool-input-end', id: part.toolCallId });
+            }
+            controller.enqueue({
+              type: 'tool-call',
+              toolCallId: part.toolCallId,
+              toolName: part.toolName,
+              input: part.args,
+            });
+            break;
+
+          case 'source':
+            controller.enqueue({ type: 'source', ...part.source });
+            break;
+
+          case 'response-metadata':
+            controller.enqueue(part);
+            break;
+
+          case 'finish':
+            close();
+            controller.enqueue({
+              type: 'finish',
+              finishReason: part.finishReason,
+              usage: convertUsage(part.usage, part.providerMetadata),
+              providerMetadata: part.providerMetadata as SharedV2ProviderMetadata | undefined,
+            });
+            break;
+
+          case 'error':
+            controller.enqueue({ type: 'error', error: part.error });
+            break;
+        }
+      },
+    }));
+
+    return {
+      stream,
+      request: { body: result.rawCall.rawSettings },
+      response: { headers: result.rawResponse?.headers },
+    };
+  }
+}
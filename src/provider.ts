@@ -5,39 +5,44 @@
  * Mimics Claude Code's headers exactly as pi-ai does
  */
 
-import type {
-  LanguageModelV1,
-  LanguageModelV1CallOptions,
-  LanguageModelV1CallWarning,
-  LanguageModelV1FinishReason,
-  LanguageModelV1StreamPart,
-  LanguageModelV1FunctionToolCall,
+import {
+  APICallError,
+  InvalidArgumentError,
+  JSONParseError,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1CallWarning,
+  type LanguageModelV1FinishReason,
+  type LanguageModelV1StreamPart,
+  type LanguageModelV1FunctionToolCall,
+  type LanguageModelV1ProviderMetadata,
+  type LanguageModelV1FunctionTool,
+  type LanguageModelV1ProviderDefinedTool,
+  type LanguageModelV1Source,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1ToolChoice,
+  type JSONValue,
 } from '@ai-sdk/provider';
 
-import { getValidAccessToken } from './credentials.js';
-
-// Claude Code specific headers - from pi-ai's anthropic.js
-const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
-const ANTHROPIC_API_VERSION = '2023-06-01';
-const CLAUDE_CODE_VERSION = '2.1.0'; // Mimic recent Claude Code version
-const ANTHROPIC_BETA_FEATURES = [
-  'claude-code-20250219',
-  'oauth-2025-04-20', 
-  'fine-grained-tool-streaming-2025-05-14'
-];
-
-function getAuthHeaders(accessToken: string): Record<string, string> {
-  return {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-    'Authorization': `Bearer ${accessToken}`,
-    'anthropic-version': ANTHROPIC_API_VERSION,
-    'anthropic-beta': ANTHROPIC_BETA_FEATURES.join(','),
-    'anthropic-dangerous-direct-browser-access': 'true',
-    'user-agent': `claude-cli/${CLAUDE_CODE_VERSION} (external, cli)`,
-    'x-app': 'cli',
-  };
-}
+import { CredentialManager } from './credentials.js';
+import { callApi, resolveApiConfig, type ClaudeCodeApiConfig } from './api.js';
+import { convertPrompt, extractSystemMessage, normalizePrompt } from './convert-prompt.js';
+import { ContextWindowExceededError, type AnthropicErrorData } from './errors.js';
+import { getModelInfo, resolveModelId, type ClaudeCodeModelId, type ClaudeCodeModelInfo } from './models.js';
+import { SSEDecoder, type SSEEvent } from './sse.js';
+import { prepareProviderTool } from './tools.js';
+import type { QuotaTracker, QuotaSnapshot } from './quota.js';
+import type { CredentialPool } from './pool.js';
+import type { Logger, LogLevel } from './logger.js';
+import { recordSpanError, type ClaudeCodeRequestHooks, type Span, type Tracer } from './telemetry.js';
+import type { UsageLedger } from './usage.js';
+import { collectStreamOutput, streamCachedOutput, withCacheFlag, type ResponseCache } from './cache.js';
+import type {
+  AnthropicCacheControl,
+  AnthropicMessage,
+  AnthropicTextBlock,
+  AnthropicTool,
+} from './anthropic-api-types.js';
 
 export interface ClaudeCodeModelSettings {
   maxTokens?: number;
@@ -46,67 +51,607 @@ export interface ClaudeCodeModelSettings {
   topK?: number;
   /** Include Claude Code identity in system prompt (recommended for OAuth) */
   includeClaudeCodeIdentity?: boolean;
+  /**
+   * Prompt caching mode. 'manual' (default) only honors
+   * `providerMetadata.anthropic.cacheControl` on messages and parts.
+   * 'auto' also adds cache breakpoints after the system prompt
+   * (including the Claude Code identity) and after the tool definitions.
+   */
+  promptCaching?: 'auto' | 'manual';
+  /**
+   * Extended thinking. Can also be set per call with
+   * `providerMetadata: { anthropic: { thinking: { budgetTokens } } }`
+   */
+  thinking?: ClaudeCodeThinkingSettings;
+  /**
+   * Count input tokens before each call and check them against the model's
+   * context window and output limit. 'error' throws ContextWindowExceededError,
+   * 'clamp' lowers max_tokens to what fits. Off by default (costs one extra request).
+   */
+  contextWindowPreflight?: 'error' | 'clamp';
+  /**
+   * How object-json mode (`generateObject` with mode 'json') gets JSON out of the model.
+   * 'tool' (default) forces a synthetic tool whose input schema is the object schema.
+   * 'prefill' puts the schema in the system prompt and prefills the reply with `{` or `[`.
+   * With thinking enabled neither forcing nor prefill is allowed, so only the schema instructions are sent.
+   */
+  objectJsonStrategy?: 'tool' | 'prefill';
+  /**
+   * Fix invalid object-json output locally (code fences, surrounding prose, trailing commas). Defaults to true
+   */
+  repairJson?: boolean;
+  /**
+   * Ask the model again, up to this many times, when object-json output is still invalid JSON.
+   * Defaults to 0. Applies to doGenerate only; streamed text can't be taken back.
+   */
+  maxJsonRetries?: number;
+  /**
+   * Caller tag for the usage ledger, e.g. a team member or feature.
+   * Overridden per call by `providerOptions.anthropic.usageTag`
+   */
+  usageTag?: string;
+}
+
+/**
+ * Input of `countTokens`. Tools are in the same form the AI SDK passes to doGenerate.
+ */
+export interface ClaudeCodeCountTokensOptions {
+  prompt: string | LanguageModelV1Prompt;
+  /** System prompt, sent before the prompt's messages */
+  system?: string;
+  tools?: Array<LanguageModelV1FunctionTool | LanguageModelV1ProviderDefinedTool>;
+  toolChoice?: LanguageModelV1ToolChoice;
+  /** Per-call provider metadata, e.g. `{ anthropic: { thinking } }` */
+  providerMetadata?: LanguageModelV1ProviderMetadata;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Per-call options, passed as `providerOptions: { anthropic: { ... } }`
+ * (`providerMetadata` in AI SDK 4)
+ */
+export interface ClaudeCodeCallOptions {
+  /** Extended thinking for this call, overriding the model setting */
+  thinking?: ClaudeCodeThinkingSettings;
+  /** Sent as `metadata.user_id`: an opaque ID of the end user, for abuse detection */
+  userId?: string;
+  /** Allow at most one tool call per response */
+  disableParallelToolUse?: boolean;
+  /** 'auto' uses priority capacity when available, 'standard_only' never does */
+  serviceTier?: 'auto' | 'standard_only';
+  /** Caller tag for the usage ledger and tag budgets */
+  usageTag?: string;
+  /** Call the API even if the response cache has an entry; the fresh response replaces it */
+  skipCache?: boolean;
+}
+
+export interface ClaudeCodeThinkingSettings {
+  /** Defaults to 'enabled' */
+  type?: 'enabled' | 'disabled';
+  /** Tokens the model may spend thinking, at least 1024. Added on top of maxTokens */
+  budgetTokens?: number;
+}
+
+interface AnthropicUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}
+
+/**
+ * Document citation as returned by the API (char, page or content block location)
+ */
+type AnthropicCitation = Record<string, JSONValue>;
+
+/**
+ * Cache token counts, quota snapshot and citations, reported as `providerMetadata.anthropic`
+ */
+function getUsageMetadata(
+  usage: Partial<AnthropicUsage>,
+  quota: QuotaSnapshot | undefined,
+  citations: AnthropicCitation[] = [],
+  serverTools?: ServerToolActivity,
+): LanguageModelV1ProviderMetadata {
+  return {
+    anthropic: {
+      cacheCreationInputTokens: usage.cache_creation_input_tokens ?? null,
+      cacheReadInputTokens: usage.cache_read_input_tokens ?? null,
+      ...(quota ? { quota: quota as unknown as JSONValue } : {}),
+      ...(citations.length > 0 ? { citations } : {}),
+      ...(serverTools && serverTools.serverToolUses.length > 0 ? { serverToolUses: serverTools.serverToolUses } : {}),
+      ...(serverTools && serverTools.serverToolResults.length > 0
+        ? { serverToolResults: serverTools.serverToolResults }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Map AI SDK tools to Messages API tool definitions, collecting the beta flags
+ * provider-defined tools need
+ */
+function convertTools(
+  tools: Array<LanguageModelV1FunctionTool | LanguageModelV1ProviderDefinedTool>,
+  betas: Set<string>,
+  warnings: LanguageModelV1CallWarning[],
+): Array<AnthropicTool | Record<string, unknown>> {
+  const converted: Array<AnthropicTool | Record<string, unknown>> = [];
+
+  for (const tool of tools) {
+    if (tool.type === 'function') {
+      converted.push({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters,
+      });
+      continue;
+    }
+
+    const prepared = prepareProviderTool(tool.id, tool.args);
+    if (!prepared) {
+      warnings.push({ type: 'unsupported-tool', tool, details: `Unknown provider-defined tool ${tool.id}` });
+      continue;
+    }
+
+    converted.push(prepared.tool);
+    if (prepared.beta) {
+      betas.add(prepared.beta);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Server tool calls and results (web search, code execution), reported as `providerMetadata.anthropic`
+ */
+interface ServerToolActivity {
+  serverToolUses: Array<{ id: string; name: string; input: JSONValue }>;
+  serverToolResults: Array<{ type: string; toolUseId: string; content: JSONValue }>;
+}
+
+/**
+ * Record a server tool result block and get the sources it provides
+ */
+function handleServerToolResult(
+  block: { type: string; tool_use_id: string; content: unknown },
+  activity: ServerToolActivity,
+): LanguageModelV1Source[] {
+  activity.serverToolResults.push({
+    type: block.type,
+    toolUseId: block.tool_use_id,
+    content: block.content as JSONValue,
+  });
+
+  if (block.type !== 'web_search_tool_result' || !Array.isArray(block.content)) {
+    return [];
+  }
+
+  return (block.content as Array<{ type: string; url: string; title?: string; page_age?: string | null }>)
+    .filter(result => result.type === 'web_search_result')
+    .map(result => ({
+      sourceType: 'url',
+      id: result.url,
+      url: result.url,
+      title: result.title,
+      providerMetadata: { anthropic: { pageAge: result.page_age ?? null } },
+    }));
+}
+
+/**
+ * Messages API response body
+ */
+export interface AnthropicMessageResponse {
+  id: string;
+  type: string;
+  role: string;
+  model?: string;
+  content: Array<{
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
+    thinking?: string;
+    signature?: string;
+    data?: string;
+    citations?: AnthropicCitation[];
+    tool_use_id?: string;
+    content?: unknown;
+  }>;
+  stop_reason: string;
+  usage: AnthropicUsage;
+}
+
+/**
+ * Generate result in the AI SDK's doGenerate shape, without the raw call information
+ */
+export interface ClaudeCodeGenerateOutput {
+  text?: string;
+  reasoning?: ReasoningOutput;
+  toolCalls?: LanguageModelV1FunctionToolCall[];
+  finishReason: LanguageModelV1FinishReason;
+  usage: { promptTokens: number; completionTokens: number };
+  providerMetadata?: LanguageModelV1ProviderMetadata;
+  sources?: LanguageModelV1Source[];
+}
+
+/**
+ * Convert a Messages API response to doGenerate output
+ */
+export function convertMessageResponse(
+  data: AnthropicMessageResponse,
+  quota?: QuotaSnapshot,
+): ClaudeCodeGenerateOutput {
+  // Extract text, reasoning and tool calls
+  let text: string | undefined;
+  const reasoning: ReasoningOutput = [];
+  const toolCalls: LanguageModelV1FunctionToolCall[] = [];
+  const citations: AnthropicCitation[] = [];
+  const sources: LanguageModelV1Source[] = [];
+  const serverTools: ServerToolActivity = { serverToolUses: [], serverToolResults: [] };
+  
+  for (const block of data.content) {
+    if (block.type === 'text') {
+      text = (text ?? '') + block.text;
+      citations.push(...block.citations ?? []);
+    } else if (block.type === 'thinking') {
+      reasoning.push({ type: 'text', text: block.thinking!, signature: block.signature });
+    } else if (block.type === 'redacted_thinking') {
+      reasoning.push({ type: 'redacted', data: block.data! });
+    } else if (block.type === 'server_tool_use') {
+      serverTools.serverToolUses.push({ id: block.id!, name: block.name!, input: block.input as JSONValue });
+    } else if (block.type.endsWith('_tool_result')) {
+      sources.push(...handleServerToolResult(
+        { type: block.type, tool_use_id: block.tool_use_id!, content: block.content },
+        serverTools,
+      ));
+    } else if (block.type === 'tool_use') {
+      toolCalls.push({
+        toolCallType: 'function',
+        toolCallId: block.id!,
+        toolName: block.name!,
+        args: JSON.stringify(block.input),
+      });
+    }
+  }
+
+  const finishReason = mapStopReason(data.stop_reason);
+
+  return {
+    text,
+    reasoning: reasoning.length > 0 ? reasoning : undefined,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    finishReason,
+    usage: {
+      promptTokens: data.usage.input_tokens,
+      completionTokens: data.usage.output_tokens,
+    },
+    providerMetadata: getUsageMetadata(data.usage, quota, citations, serverTools),
+    sources: sources.length > 0 ? sources : undefined,
+  };
+}
+
+/**
+ * Where object-json output comes back: as the input of the synthetic tool,
+ * or as text continuing the prefill
+ */
+export type JsonOutput =
+  | { type: 'tool'; toolName: string }
+  | { type: 'text'; prefill: string };
+
+function parsesAsJson(text: string | undefined): boolean {
+  if (text === undefined) return false;
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recover JSON from model text: a fenced code block, the outermost object or array
+ * inside surrounding prose, with trailing commas removed. Undefined if nothing parses.
+ */
+function repairJsonText(text: string): string | undefined {
+  const candidates = [text.trim()];
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    for (const attempt of [candidate, candidate.replace(/,(\s*[}\]])/g, '$1')]) {
+      if (parsesAsJson(attempt)) return attempt;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Turn object-json output into the text the AI SDK parses: the synthetic tool's
+ * input, or the prefill plus the reply, repaired if it doesn't parse
+ */
+export function readJsonOutput(
+  output: ClaudeCodeGenerateOutput,
+  jsonOutput: JsonOutput,
+  repair: boolean,
+): ClaudeCodeGenerateOutput {
+  if (jsonOutput.type === 'tool') {
+    const jsonCall = output.toolCalls?.find(call => call.toolName === jsonOutput.toolName);
+    if (!jsonCall) return output;
+
+    const toolCalls = output.toolCalls!.filter(call => call !== jsonCall);
+    return {
+      ...output,
+      text: jsonCall.args,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      finishReason: output.finishReason === 'tool-calls' ? 'stop' : output.finishReason,
+    };
+  }
+
+  const text = jsonOutput.prefill + (output.text ?? '');
+  return {
+    ...output,
+    text: repair && !parsesAsJson(text) ? repairJsonText(text) ?? text : text,
+  };
 }
 
-export type ClaudeCodeModelId = 
-  | 'claude-sonnet-4-20250514'
-  | 'claude-opus-4-20250514'
-  | 'claude-haiku-3-5-20241022'
-  | 'claude-3-5-sonnet-20241022'
-  | 'claude-3-5-haiku-20241022'
-  | 'claude-3-opus-20240229'
-  | (string & {});
+/**
+ * Request body that follows an invalid JSON reply with a request to correct it
+ */
+function withJsonCorrection(body: Record<string, unknown>, invalidText: string, prefill: string): Record<string, unknown> {
+  const messages = [...body.messages as AnthropicMessage[]];
+  if (prefill) {
+    messages.pop();
+  }
+
+  let error = 'empty response';
+  try {
+    JSON.parse(invalidText);
+  } catch (parseError) {
+    error = invalidText.trim() ? (parseError as Error).message : error;
+  }
+
+  messages.push(
+    // The API rejects empty text blocks
+    { role: 'assistant', content: invalidText.trim() ? invalidText : '(no output)' },
+    { role: 'user', content: `That was not valid JSON (${error}). Respond again with only the corrected JSON.` },
+  );
+  if (prefill) {
+    messages.push({ role: 'assistant', content: prefill });
+  }
+
+  return { ...body, messages };
+}
+
+function mapStopReason(stopReason: string | null | undefined): LanguageModelV1FinishReason {
+  switch (stopReason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'tool_use':
+      return 'tool-calls';
+    case 'max_tokens':
+      return 'length';
+    case 'refusal':
+      return 'content-filter';
+    case undefined:
+    case null:
+      return 'unknown';
+    default:
+      return 'other';
+  }
+}
+
+type ReasoningOutput = Array<
+  | { type: 'text'; text: string; signature?: string }
+  | { type: 'redacted'; data: string }
+>;
+
+
+/**
+ * Provider-level configuration shared by all models of a provider instance
+ */
+export interface ClaudeCodeModelConfig {
+  /** Base URL for API calls. Defaults to https://api.anthropic.com/v1 */
+  baseURL?: string;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Credential cache and refresh state. Defaults to ~/.claude/.credentials.json */
+  credentials?: CredentialManager;
+  /** Latest rate-limit and subscription quota snapshot */
+  quota?: QuotaTracker;
+  /** Accounts to spread requests over, instead of `credentials` */
+  pool?: CredentialPool;
+  /** Logger or console log level. Defaults to console warnings and errors */
+  logger?: Logger | LogLevel;
+  /** Callbacks around every API call */
+  hooks?: ClaudeCodeRequestHooks;
+  /** OpenTelemetry tracer for HTTP call and stream spans */
+  tracer?: Tracer;
+  /** Records calls and enforces token budgets */
+  usage?: UsageLedger;
+  /** Serves identical requests from earlier responses */
+  cache?: ResponseCache;
+}
 
 // Claude Code identity prefix (from pi-ai)
-const CLAUDE_CODE_IDENTITY = "You are Claude Code, Anthropic's official CLI for Claude.";
+export const CLAUDE_CODE_IDENTITY = "You are Claude Code, Anthropic's official CLI for Claude.";
+const AUTO_CACHE_CONTROL: AnthropicCacheControl = { type: 'ephemeral' };
+const MIN_THINKING_BUDGET_TOKENS = 1024;
+const DEFAULT_THINKING_BUDGET_TOKENS = 4096;
+// max_tokens for models missing from the catalog
+const DEFAULT_MAX_TOKENS = 4096;
+// Synthetic tool that carries object-json output
+export const JSON_TOOL_NAME = 'json';
+
+export type { ClaudeCodeModelId };
 
 export class ClaudeCodeLanguageModel implements LanguageModelV1 {
   readonly specificationVersion = 'v1' as const;
   readonly provider = 'claude-code-oauth';
-  readonly defaultObjectGenerationMode = 'json' as const;
+  // Forced tool use is the most reliable way to get schema-conforming JSON
+  readonly defaultObjectGenerationMode = 'tool' as const;
   readonly supportsImageUrls = true;
   readonly supportsStructuredOutputs = true;
 
   readonly modelId: ClaudeCodeModelId;
   readonly settings: ClaudeCodeModelSettings;
 
-  constructor(modelId: ClaudeCodeModelId, settings: ClaudeCodeModelSettings = {}) {
-    this.modelId = modelId;
+  private readonly config: ClaudeCodeApiConfig;
+  private readonly info: ClaudeCodeModelInfo | undefined;
+
+  constructor(modelId: ClaudeCodeModelId, settings: ClaudeCodeModelSettings = {}, config: ClaudeCodeModelConfig = {}) {
+    this.modelId = resolveModelId(modelId);
+    this.info = getModelInfo(this.modelId);
     this.settings = {
       includeClaudeCodeIdentity: true, // Default true for OAuth tokens
       ...settings,
     };
+    this.config = resolveApiConfig(config);
   }
 
-  async doGenerate(options: LanguageModelV1CallOptions): Promise<{
-    text?: string;
-    toolCalls?: LanguageModelV1FunctionToolCall[];
-    finishReason: LanguageModelV1FinishReason;
-    usage: { promptTokens: number; completionTokens: number };
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<ClaudeCodeGenerateOutput & {
     rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
-    rawResponse?: { headers?: Record<string, string> };
+    rawResponse?: { headers?: Record<string, string>; body?: unknown };
+    response?: { id?: string; modelId?: string };
     warnings?: LanguageModelV1CallWarning[];
   }> {
-    const accessToken = await getValidAccessToken();
-    
-    const { prompt, mode, maxTokens, temperature, topP, topK, abortSignal } = options;
+    const { body, betas, headers, warnings, jsonOutput } = this.buildRequest(options);
+    const { cache } = this.config;
+    const cacheKey = cache?.getKey(body, betas);
+    const cached = cacheKey && !this.skipsCache(options) ? await cache!.get(cacheKey) : undefined;
+    if (cached) {
+      return {
+        ...withCacheFlag(cached.output, true),
+        rawCall: {
+          rawPrompt: options.prompt,
+          rawSettings: body,
+        },
+        response: cached.response,
+        warnings,
+      };
+    }
+
+    const usageTag = this.getUsageTag(options);
+    await this.config.usage?.checkBudget(usageTag);
+    await this.checkContextWindow(body, betas, warnings, options.abortSignal);
+
+    const send = async (requestBody: Record<string, unknown>) => {
+      const startedAt = Date.now();
+      const { response, responseHeaders, quota } = await callApi(this.config, {
+        path: '/messages',
+        body: requestBody,
+        betas,
+        headers,
+        abortSignal: options.abortSignal,
+      });
+      const data = await response.json() as AnthropicMessageResponse;
+      let output = convertMessageResponse(data, quota);
+      if (jsonOutput) {
+        output = readJsonOutput(output, jsonOutput, this.settings.repairJson ?? true);
+      }
+      await this.recordUsage(data.usage, output.finishReason, startedAt, usageTag);
+      return { data, responseHeaders, output };
+    };
+
+    let { data, responseHeaders, output } = await send(body);
+
+    // Show the model its invalid output and ask again; usage adds up over the attempts
+    for (let retry = 0; jsonOutput?.type === 'text' && retry < (this.settings.maxJsonRetries ?? 0); retry++) {
+      if (parsesAsJson(output.text)) break;
+
+      const usage = output.usage;
+      ({ data, responseHeaders, output } = await send(withJsonCorrection(body, output.text ?? '', jsonOutput.prefill)));
+      output.usage = {
+        promptTokens: usage.promptTokens + output.usage.promptTokens,
+        completionTokens: usage.completionTokens + output.usage.completionTokens,
+      };
+    }
+
+    if (cacheKey) {
+      await cache!.set(cacheKey, { output, response: { id: data.id, modelId: data.model } });
+      output = withCacheFlag(output, false);
+    }
+
+    return {
+      ...output,
+      rawCall: {
+        rawPrompt: options.prompt,
+        rawSettings: body,
+      },
+      rawResponse: {
+        headers: responseHeaders,
+        body: data,
+      },
+      response: {
+        id: data.id,
+        modelId: data.model,
+      },
+      warnings,
+    };
+  }
+
+  /**
+   * Build the Messages API request for a call. The single builder behind
+   * doGenerate, doStream, countTokens and batches, so they can't drift apart.
+   */
+  buildRequest(options: Omit<LanguageModelV1CallOptions, 'abortSignal'>): {
+    body: Record<string, unknown>;
+    betas: Set<string>;
+    /** Per-call request headers */
+    headers: Record<string, string>;
+    warnings: LanguageModelV1CallWarning[];
+    /** Set in object-json mode: where the JSON comes back */
+    jsonOutput?: JsonOutput;
+  } {
+    const { prompt, mode, maxTokens, temperature, topP, topK, stopSequences } = options;
+    const anthropic = (options.providerMetadata?.anthropic ?? {}) as ClaudeCodeCallOptions;
     
     // Convert AI SDK prompt to Anthropic format
-    const messages = this.convertPrompt(prompt);
-    let systemMessage = this.extractSystemMessage(prompt);
-    
-    // Prepend Claude Code identity for OAuth (as pi-ai does)
-    if (this.settings.includeClaudeCodeIdentity) {
-      systemMessage = systemMessage 
-        ? `${CLAUDE_CODE_IDENTITY}\n\n${systemMessage}`
-        : CLAUDE_CODE_IDENTITY;
+    const warnings: LanguageModelV1CallWarning[] = [];
+    for (const setting of ['seed', 'frequencyPenalty', 'presencePenalty'] as const) {
+      if (options[setting] !== undefined) {
+        warnings.push({ type: 'unsupported-setting', setting, details: `${setting} is not supported by the Anthropic API` });
+      }
+    }
+    if (options.responseFormat?.type === 'json' && mode?.type !== 'object-json') {
+      warnings.push({
+        type: 'unsupported-setting',
+        setting: 'responseFormat',
+        details: 'JSON response format is only supported in object generation (generateObject/streamObject)',
+      });
+    }
+
+    const requestedMaxTokens = maxTokens ?? this.settings.maxTokens ?? this.info?.maxOutputTokens ?? DEFAULT_MAX_TOKENS;
+    // With the preflight on, it clamps or throws ContextWindowExceededError instead
+    if (this.info && requestedMaxTokens > this.info.maxOutputTokens && !this.settings.contextWindowPreflight) {
+      throw new InvalidArgumentError({
+        argument: 'maxTokens',
+        message: `maxTokens ${requestedMaxTokens} exceeds the ${this.info.maxOutputTokens} output tokens ${this.modelId} supports`,
+      });
     }
+
+    const messages = convertPrompt(prompt, warnings);
+    const systemMessage = this.buildSystem(prompt);
     
     // Build request body
     const body: Record<string, unknown> = {
       model: this.modelId,
       messages,
-      max_tokens: maxTokens ?? this.settings.maxTokens ?? 4096,
+      max_tokens: requestedMaxTokens,
     };
     
     if (systemMessage) {
@@ -130,24 +675,24 @@ export class ClaudeCodeLanguageModel implements LanguageModelV1 {
     } else if (this.settings.topK !== undefined) {
       body.top_k = this.settings.topK;
     }
+
+    if (stopSequences && stopSequences.length > 0) {
+      body.stop_sequences = stopSequences;
+    }
+
+    if (anthropic.userId) {
+      body.metadata = { user_id: anthropic.userId };
+    }
+
+    if (anthropic.serviceTier) {
+      body.service_tier = anthropic.serviceTier;
+    }
     
     // Handle tools
-    if (mode?.type === 'object-tool' && mode.tool) {
-      body.tools = [{
-        name: mode.tool.name,
-        description: mode.tool.description,
-        input_schema: mode.tool.parameters,
-      }];
-      body.tool_choice = { type: 'tool', name: mode.tool.name };
-    } else if (mode?.type === 'regular' && mode.tools && mode.tools.length > 0) {
-      body.tools = mode.tools
-        .filter((tool): tool is typeof tool & { type: 'function'; description?: string; parameters: unknown } => 
-          tool.type === 'function')
-        .map(tool => ({
-          name: tool.name,
-          description: tool.description,
-          input_schema: tool.parameters,
-        }));
+    const betas = new Set<string>();
+    const jsonOutput = this.applyObjectMode(body, options);
+    if (mode?.type === 'regular' && mode.tools && mode.tools.length > 0) {
+      body.tools = convertTools(mode.tools, betas, warnings);
       
       if (mode.toolChoice?.type === 'tool') {
         body.tool_choice = { type: 'tool', name: mode.toolChoice.toolName };
@@ -156,116 +701,269 @@ export class ClaudeCodeLanguageModel implements LanguageModelV1 {
       } else if (mode.toolChoice?.type === 'none') {
         body.tool_choice = { type: 'none' };
       }
+
+      if (anthropic.disableParallelToolUse) {
+        const toolChoice = (body.tool_choice ?? { type: 'auto' }) as Record<string, unknown>;
+        if (toolChoice.type !== 'none') {
+          body.tool_choice = { ...toolChoice, disable_parallel_tool_use: true };
+        }
+      }
     }
 
-    const response = await fetch(ANTHROPIC_API_URL, {
-      method: 'POST',
-      headers: getAuthHeaders(accessToken),
-      body: JSON.stringify(body),
-      signal: abortSignal,
+    this.applyPromptCaching(body);
+    this.applyThinking(body, options, warnings);
+    this.checkCapabilities(body, warnings);
+
+    // Undefined values remove a header in the AI SDK; here they're just not sent
+    const headers = Object.fromEntries(
+      Object.entries(options.headers ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined),
+    );
+
+    return { body, betas, headers, warnings, jsonOutput };
+  }
+
+  /**
+   * Count the input tokens of a prompt with /messages/count_tokens.
+   * The request is built exactly as doGenerate would build it.
+   */
+  async countTokens(options: ClaudeCodeCountTokensOptions): Promise<{ inputTokens: number }> {
+    const { body, betas } = this.buildRequest({
+      inputFormat: typeof options.prompt === 'string' ? 'prompt' : 'messages',
+      mode: { type: 'regular', tools: options.tools, toolChoice: options.toolChoice },
+      prompt: normalizePrompt(options.prompt, options.system),
+      providerMetadata: options.providerMetadata,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} ${errorText}`);
-    }
-
-    const data = await response.json() as {
-      id: string;
-      type: string;
-      role: string;
-      content: Array<{
-        type: 'text' | 'tool_use';
-        text?: string;
-        id?: string;
-        name?: string;
-        input?: unknown;
-      }>;
-      stop_reason: string;
-      usage: {
-        input_tokens: number;
-        output_tokens: number;
+    return { inputTokens: await this.countRequestTokens(body, betas, options.abortSignal) };
+  }
+
+  async doStream(options: LanguageModelV1CallOptions): Promise<{
+    stream: ReadableStream<LanguageModelV1StreamPart>;
+    rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
+    rawResponse?: { headers?: Record<string, string> };
+    warnings?: LanguageModelV1CallWarning[];
+  }> {
+    const { prompt, abortSignal } = options;
+    const { body, betas, headers, warnings, jsonOutput } = this.buildRequest(options);
+    body.stream = true;
+
+    const { cache } = this.config;
+    const cacheKey = cache?.getKey(body, betas);
+    const cached = cacheKey && !this.skipsCache(options) ? await cache!.get(cacheKey) : undefined;
+    if (cached) {
+      return {
+        stream: streamCachedOutput({ ...cached, output: withCacheFlag(cached.output, true) }),
+        rawCall: {
+          rawPrompt: prompt,
+          rawSettings: body,
+        },
+        warnings,
       };
-    };
+    }
 
-    // Extract text and tool calls
-    let text: string | undefined;
-    const toolCalls: LanguageModelV1FunctionToolCall[] = [];
-    
-    for (const block of data.content) {
-      if (block.type === 'text') {
-        text = (text ?? '') + block.text;
-      } else if (block.type === 'tool_use') {
-        toolCalls.push({
-          toolCallType: 'function',
-          toolCallId: block.id!,
-          toolName: block.name!,
-          args: JSON.stringify(block.input),
-        });
+    const usageTag = this.getUsageTag(options);
+    await this.config.usage?.checkBudget(usageTag);
+    await this.checkContextWindow(body, betas, warnings, abortSignal);
+
+    // Unlike the HTTP span, which ends at the response headers, this one lasts until the stream ends
+    const startedAt = Date.now();
+    const span = this.config.tracer?.startSpan('claude-code-oauth.stream', {
+      attributes: { 'gen_ai.request.model': this.modelId },
+    });
+
+    let result: Awaited<ReturnType<typeof callApi>>;
+    try {
+      result = await callApi(this.config, {
+        path: '/messages',
+        body,
+        betas,
+        headers,
+        abortSignal,
+      });
+    } catch (error) {
+      if (span) {
+        recordSpanError(span, error);
+        span.end();
       }
+      throw error;
     }
 
-    // Map stop reason
-    let finishReason: LanguageModelV1FinishReason = 'other';
-    if (data.stop_reason === 'end_turn') {
-      finishReason = 'stop';
-    } else if (data.stop_reason === 'tool_use') {
-      finishReason = 'tool-calls';
-    } else if (data.stop_reason === 'max_tokens') {
-      finishReason = 'length';
+    const { response, responseHeaders, quota } = result;
+    let stream = this.createStreamTransformer(response.body!, quota, {
+      url: `${this.config.baseURL}/messages`,
+      body,
+      jsonOutput,
+      onFinish: (finishReason, usage) => void this.recordUsage(usage, finishReason, startedAt, usageTag),
+    }, span && { span, startedAt });
+    if (cacheKey) {
+      stream = stream.pipeThrough(collectStreamOutput(entry => cache!.set(cacheKey, entry)));
     }
 
     return {
-      text,
-      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-      finishReason,
-      usage: {
-        promptTokens: data.usage.input_tokens,
-        completionTokens: data.usage.output_tokens,
-      },
+      stream,
       rawCall: {
         rawPrompt: prompt,
         rawSettings: body,
       },
+      rawResponse: {
+        headers: responseHeaders,
+      },
+      warnings,
     };
   }
 
-  async doStream(options: LanguageModelV1CallOptions): Promise<{
-    stream: ReadableStream<LanguageModelV1StreamPart>;
-    rawCall: { rawPrompt: unknown; rawSettings: Record<string, unknown> };
-    rawResponse?: { headers?: Record<string, string> };
-    warnings?: LanguageModelV1CallWarning[];
-  }> {
-    const accessToken = await getValidAccessToken();
-    
-    const { prompt, mode, maxTokens, temperature, topP, topK, abortSignal } = options;
-    
-    const messages = this.convertPrompt(prompt);
-    let systemMessage = this.extractSystemMessage(prompt);
-    
-    // Prepend Claude Code identity for OAuth
+  private getUsageTag(options: Pick<LanguageModelV1CallOptions, 'providerMetadata'>): string | undefined {
+    return (options.providerMetadata?.anthropic?.usageTag as string | undefined) ?? this.settings.usageTag;
+  }
+
+  private skipsCache(options: Pick<LanguageModelV1CallOptions, 'providerMetadata'>): boolean {
+    return options.providerMetadata?.anthropic?.skipCache === true;
+  }
+
+  /**
+   * Add a finished call to the usage ledger, if there is one
+   */
+  private async recordUsage(
+    usage: Partial<AnthropicUsage>,
+    finishReason: LanguageModelV1FinishReason,
+    startedAt: number,
+    tag: string | undefined,
+  ): Promise<void> {
+    await this.config.usage?.record({
+      model: this.modelId,
+      tag,
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      cacheCreationInputTokens: usage.cache_creation_input_tokens ?? 0,
+      cacheReadInputTokens: usage.cache_read_input_tokens ?? 0,
+      durationMs: Date.now() - startedAt,
+      finishReason,
+    });
+  }
+
+  /**
+   * Count the input tokens of a Messages API request body
+   */
+  private async countRequestTokens(
+    body: Record<string, unknown>,
+    betas: Set<string>,
+    abortSignal: AbortSignal | undefined,
+  ): Promise<number> {
+    const { model, messages, system, tools, tool_choice, thinking } = body;
+
+    const { response } = await callApi(this.config, {
+      path: '/messages/count_tokens',
+      body: { model, messages, system, tools, tool_choice, thinking },
+      betas,
+      abortSignal,
+    });
+
+    const data = await response.json() as { input_tokens: number };
+    return data.input_tokens;
+  }
+
+  /**
+   * Context-window preflight: make sure input plus max_tokens fits the model,
+   * throwing or lowering max_tokens depending on `settings.contextWindowPreflight`
+   */
+  private async checkContextWindow(
+    body: Record<string, unknown>,
+    betas: Set<string>,
+    warnings: LanguageModelV1CallWarning[],
+    abortSignal: AbortSignal | undefined,
+  ): Promise<void> {
+    const preflight = this.settings.contextWindowPreflight;
+    if (!preflight) return;
+
+    const limits = this.info;
+    if (!limits) {
+      warnings.push({ type: 'other', message: `Context window preflight skipped: limits of ${this.modelId} are unknown` });
+      return;
+    }
+
+    const inputTokens = await this.countRequestTokens(body, betas, abortSignal);
+    const maxTokens = body.max_tokens as number;
+    const available = Math.min(limits.maxOutputTokens, limits.contextWindow - inputTokens);
+    if (maxTokens <= available) return;
+
+    // With thinking on, max_tokens must leave room for at least one token after the budget
+    const thinkingBudget = (body.thinking as { budget_tokens: number } | undefined)?.budget_tokens ?? 0;
+
+    if (preflight === 'error' || available <= thinkingBudget) {
+      throw new ContextWindowExceededError({
+        message: inputTokens >= limits.contextWindow
+          ? `Prompt is ${inputTokens} tokens, over the ${limits.contextWindow} token context window of ${this.modelId}`
+          : `max_tokens ${maxTokens} exceeds the ${available} tokens available for ${this.modelId} `
+            + `(${inputTokens} input tokens, ${limits.contextWindow} context window, ${limits.maxOutputTokens} max output)`,
+        modelId: this.modelId,
+        inputTokens,
+        maxTokens,
+        contextWindow: limits.contextWindow,
+        maxOutputTokens: limits.maxOutputTokens,
+      });
+    }
+
+    body.max_tokens = available;
+    warnings.push({ type: 'other', message: `max_tokens lowered from ${maxTokens} to ${available} to fit the context window of ${this.modelId}` });
+  }
+
+  /**
+   * System prompt with the Claude Code identity prepended (as pi-ai does).
+   * Sent as a plain string unless a block carries cache control.
+   */
+  private buildSystem(prompt: LanguageModelV1CallOptions['prompt']): string | AnthropicTextBlock[] | undefined {
+    const blocks = extractSystemMessage(prompt);
+
     if (this.settings.includeClaudeCodeIdentity) {
-      systemMessage = systemMessage 
-        ? `${CLAUDE_CODE_IDENTITY}\n\n${systemMessage}`
-        : CLAUDE_CODE_IDENTITY;
+      blocks.unshift({ type: 'text', text: CLAUDE_CODE_IDENTITY });
     }
-    
-    const body: Record<string, unknown> = {
-      model: this.modelId,
-      messages,
-      max_tokens: maxTokens ?? this.settings.maxTokens ?? 4096,
-      stream: true,
-    };
-    
-    if (systemMessage) {
-      body.system = systemMessage;
+
+    if (blocks.length === 0) {
+      return undefined;
     }
-    
-    if (temperature !== undefined) body.temperature = temperature;
-    if (topP !== undefined) body.top_p = topP;
-    if (topK !== undefined) body.top_k = topK;
 
-    // Handle tools (same as doGenerate)
+    if (this.settings.promptCaching === 'auto') {
+      blocks[blocks.length - 1].cache_control ??= AUTO_CACHE_CONTROL;
+    }
+
+    return blocks.some(block => block.cache_control)
+      ? blocks
+      : blocks.map(block => block.text).join('\n\n');
+  }
+
+  /**
+   * In 'auto' caching mode, add a cache breakpoint after the tool definitions
+   */
+  private applyPromptCaching(body: Record<string, unknown>): void {
+    const tools = body.tools as AnthropicTool[] | undefined;
+
+    if (this.settings.promptCaching === 'auto' && tools && tools.length > 0) {
+      tools[tools.length - 1].cache_control ??= AUTO_CACHE_CONTROL;
+    }
+  }
+
+  /**
+   * Thinking settings of a call (per-call provider metadata over model settings), unless disabled
+   */
+  private getThinkingSettings(
+    options: Pick<LanguageModelV1CallOptions, 'providerMetadata'>,
+  ): ClaudeCodeThinkingSettings | undefined {
+    const thinking = (options.providerMetadata?.anthropic?.thinking as ClaudeCodeThinkingSettings | undefined)
+      ?? this.settings.thinking;
+    return thinking && thinking.type !== 'disabled' ? thinking : undefined;
+  }
+
+  /**
+   * Set up object generation. object-tool forces the caller's tool. object-json
+   * forces a synthetic tool with the schema, or sends the schema as instructions
+   * with a prefilled reply; thinking rules out forcing and prefill both.
+   */
+  private applyObjectMode(
+    body: Record<string, unknown>,
+    options: Pick<LanguageModelV1CallOptions, 'mode' | 'providerMetadata'>,
+  ): JsonOutput | undefined {
+    const { mode } = options;
+
     if (mode?.type === 'object-tool' && mode.tool) {
       body.tools = [{
         name: mode.tool.name,
@@ -273,217 +971,381 @@ export class ClaudeCodeLanguageModel implements LanguageModelV1 {
         input_schema: mode.tool.parameters,
       }];
       body.tool_choice = { type: 'tool', name: mode.tool.name };
-    } else if (mode?.type === 'regular' && mode.tools && mode.tools.length > 0) {
-      body.tools = mode.tools
-        .filter((tool): tool is typeof tool & { type: 'function'; description?: string; parameters: unknown } => 
-          tool.type === 'function')
-        .map(tool => ({
-          name: tool.name,
-          description: tool.description,
-          input_schema: tool.parameters,
-        }));
+      return undefined;
     }
 
-    const response = await fetch(ANTHROPIC_API_URL, {
-      method: 'POST',
-      headers: getAuthHeaders(accessToken),
-      body: JSON.stringify(body),
-      signal: abortSignal,
-    });
+    if (mode?.type !== 'object-json') {
+      return undefined;
+    }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Anthropic API error: ${response.status} ${errorText}`);
+    const schema = mode.schema as { type?: unknown } | undefined;
+    const thinking = Boolean(this.getThinkingSettings(options)) && this.info?.thinking !== false;
+
+    // Tool input must be an object, so other schemas fall back to instructions
+    if ((this.settings.objectJsonStrategy ?? 'tool') === 'tool' && !thinking && schema?.type === 'object') {
+      body.tools = [{
+        name: JSON_TOOL_NAME,
+        description: mode.description ?? 'Respond with a JSON object that matches the input schema',
+        input_schema: schema,
+      }];
+      body.tool_choice = { type: 'tool', name: JSON_TOOL_NAME };
+      return { type: 'tool', toolName: JSON_TOOL_NAME };
     }
 
-    const stream = this.createStreamTransformer(response.body!);
+    const instructions = [
+      mode.description,
+      schema
+        ? `Respond with only a JSON value that matches this JSON schema, without any other text:\n${JSON.stringify(schema)}`
+        : 'Respond with only a valid JSON value, without any other text.',
+    ].filter(Boolean).join('\n\n');
 
-    return {
-      stream,
-      rawCall: {
-        rawPrompt: prompt,
-        rawSettings: body,
-      },
-    };
+    const system = body.system as string | AnthropicTextBlock[] | undefined;
+    body.system = Array.isArray(system)
+      ? [...system, { type: 'text', text: instructions }]
+      : system ? `${system}\n\n${instructions}` : instructions;
+
+    // The API rejects prefill with thinking, and a trailing assistant turn is already a prefill
+    const messages = body.messages as AnthropicMessage[];
+    const prefill = schema?.type === 'object' ? '{' : schema?.type === 'array' ? '[' : '';
+    if (thinking || !prefill || messages[messages.length - 1]?.role === 'assistant') {
+      return { type: 'text', prefill: '' };
+    }
+
+    messages.push({ role: 'assistant', content: prefill });
+    return { type: 'text', prefill };
+  }
+
+  /**
+   * Enable extended thinking on the request body and drop sampling settings
+   * the API rejects while thinking is on
+   */
+  private applyThinking(
+    body: Record<string, unknown>,
+    options: LanguageModelV1CallOptions,
+    warnings: LanguageModelV1CallWarning[],
+  ): void {
+    const thinking = this.getThinkingSettings(options);
+    if (!thinking) {
+      return;
+    }
+
+    if (this.info && !this.info.thinking) {
+      warnings.push({ type: 'other', message: `${this.modelId} does not support extended thinking; thinking was not enabled` });
+      return;
+    }
+
+    const budgetTokens = thinking.budgetTokens ?? DEFAULT_THINKING_BUDGET_TOKENS;
+    if (budgetTokens < MIN_THINKING_BUDGET_TOKENS) {
+      throw new InvalidArgumentError({
+        argument: 'thinking.budgetTokens',
+        message: `Thinking budget must be at least ${MIN_THINKING_BUDGET_TOKENS} tokens, got ${budgetTokens}`,
+      });
+    }
+
+    const toolChoice = body.tool_choice as { type: string } | undefined;
+    if (toolChoice?.type === 'any' || toolChoice?.type === 'tool') {
+      throw new InvalidArgumentError({
+        argument: 'thinking',
+        message: 'Extended thinking cannot be combined with a forced tool choice (toolChoice "required" or a specific tool, or object-tool mode)',
+      });
+    }
+
+    body.thinking = { type: 'enabled', budget_tokens: budgetTokens };
+    // The budget counts toward max_tokens, which can't exceed the model's output limit.
+    // A max_tokens already over it is left for the preflight to report or clamp.
+    const maxTokens = body.max_tokens as number;
+    const maxOutputTokens = this.info?.maxOutputTokens ?? Number.POSITIVE_INFINITY;
+    body.max_tokens = maxTokens > maxOutputTokens ? maxTokens : Math.min(maxTokens + budgetTokens, maxOutputTokens);
+
+    if (body.temperature !== undefined) {
+      delete body.temperature;
+      warnings.push({ type: 'unsupported-setting', setting: 'temperature', details: 'temperature is not supported when thinking is enabled' });
+    }
+
+    if (body.top_k !== undefined) {
+      delete body.top_k;
+      warnings.push({ type: 'unsupported-setting', setting: 'topK', details: 'topK is not supported when thinking is enabled' });
+    }
+
+    const topP = body.top_p as number | undefined;
+    if (topP !== undefined && (topP < 0.95 || topP > 1)) {
+      delete body.top_p;
+      warnings.push({ type: 'unsupported-setting', setting: 'topP', details: 'topP must be between 0.95 and 1 when thinking is enabled' });
+    }
   }
 
-  private createStreamTransformer(body: ReadableStream<Uint8Array>): ReadableStream<LanguageModelV1StreamPart> {
+  /**
+   * Warn about image and PDF input the model can't read, based on the model catalog
+   */
+  private checkCapabilities(body: Record<string, unknown>, warnings: LanguageModelV1CallWarning[]): void {
+    if (!this.info) return;
+
+    const blocks = (body.messages as AnthropicMessage[]).flatMap(message => {
+      if (typeof message.content === 'string') return [];
+      return message.content.flatMap(block => {
+        return block.type === 'tool_result' && Array.isArray(block.content) ? [block, ...block.content] : [block];
+      });
+    });
+
+    if (!this.info.vision && blocks.some(block => block.type === 'image')) {
+      warnings.push({ type: 'other', message: `${this.modelId} does not support image input` });
+    }
+
+    const hasPdf = blocks.some(block => {
+      return block.type === 'document' && block.source.type !== 'text';
+    });
+    if (!this.info.pdf && hasPdf) {
+      warnings.push({ type: 'other', message: `${this.modelId} does not support PDF input` });
+    }
+  }
+
+  private createStreamTransformer(
+    body: ReadableStream<Uint8Array>,
+    quota: QuotaSnapshot | undefined,
+    request: {
+      url: string;
+      body: Record<string, unknown>;
+      jsonOutput?: JsonOutput;
+      /** Called once with the final usage, also after errors */
+      onFinish?: (finishReason: LanguageModelV1FinishReason, usage: Partial<AnthropicUsage>) => void;
+    },
+    telemetry?: { span: Span; startedAt: number },
+  ): ReadableStream<LanguageModelV1StreamPart> {
     const decoder = new TextDecoder();
-    let buffer = '';
+    const sse = new SSEDecoder();
+    let usage: Partial<AnthropicUsage> = {};
     let inputTokens = 0;
     let outputTokens = 0;
-    let currentToolCallId = '';
-    let currentToolCallName = '';
-    let currentToolCallArgs = '';
-
-    return new ReadableStream({
-      async start(controller) {
-        const reader = body.getReader();
-        
+    let finishReason: LanguageModelV1FinishReason = 'unknown';
+    let finished = false;
+    let receivedFirstToken = false;
+    const citations: AnthropicCitation[] = [];
+    const serverTools: ServerToolActivity = { serverToolUses: [], serverToolResults: [] };
+    // Tool calls being streamed, by content block index
+    const toolCalls = new Map<number, { id: string; name: string; args: string }>();
+    const serverToolCalls = new Map<number, { id: string; name: string; args: string }>();
+    // Content block indexes of the object-json synthetic tool, streamed as text
+    const jsonToolBlocks = new Set<number>();
+    const { jsonOutput } = request;
+
+    const reader = body.getReader();
+    let controller!: ReadableStreamDefaultController<LanguageModelV1StreamPart>;
+    let closed = false;
+    let enqueued = 0;
+
+    const enqueue = (part: LanguageModelV1StreamPart) => {
+      enqueued++;
+      controller.enqueue(part);
+    };
+
+    const finish = (reason: LanguageModelV1FinishReason) => {
+      if (finished) return;
+      finished = true;
+      enqueue({
+        type: 'finish',
+        finishReason: reason,
+        providerMetadata: getUsageMetadata(usage, quota, citations, serverTools),
+        usage: {
+          promptTokens: inputTokens,
+          completionTokens: outputTokens,
+        },
+      });
+      telemetry?.span.setAttributes({
+        'gen_ai.response.finish_reasons': [reason],
+        'gen_ai.usage.input_tokens': inputTokens,
+        'gen_ai.usage.output_tokens': outputTokens,
+      });
+      request.onFinish?.(reason, { ...usage, input_tokens: inputTokens, output_tokens: outputTokens });
+    };
+
+    const fail = (error: unknown) => {
+      enqueue({ type: 'error', error });
+      if (telemetry) recordSpanError(telemetry.span, error);
+      finish('error');
+    };
+
+    const handleEvent = (sseEvent: SSEEvent) => {
+      if (sseEvent.event === 'ping') return;
+
+      let event;
+      try {
+        event = JSON.parse(sseEvent.data);
+      } catch (error) {
+        enqueue({ type: 'error', error: new JSONParseError({ text: sseEvent.data, cause: error }) });
+        return;
+      }
+
+      if (event.type === 'message_start') {
+        usage = event.message?.usage ?? {};
+        inputTokens = usage.input_tokens ?? 0;
+        enqueue({
+          type: 'response-metadata',
+          id: event.message?.id,
+          modelId: event.message?.model,
+        });
+        if (jsonOutput?.type === 'text' && jsonOutput.prefill) {
+          enqueue({ type: 'text-delta', textDelta: jsonOutput.prefill });
+        }
+      } else if (event.type === 'content_block_start') {
+        if (jsonOutput?.type === 'tool' && event.content_block?.type === 'tool_use' && event.content_block.name === jsonOutput.toolName) {
+          jsonToolBlocks.add(event.index);
+        } else if (event.content_block?.type === 'tool_use') {
+          toolCalls.set(event.index, {
+            id: event.content_block.id,
+            name: event.content_block.name,
+            args: '',
+          });
+        } else if (event.content_block?.type === 'redacted_thinking') {
+          enqueue({
+            type: 'redacted-reasoning',
+            data: event.content_block.data,
+          });
+        } else if (event.content_block?.type === 'server_tool_use') {
+          serverToolCalls.set(event.index, {
+            id: event.content_block.id,
+            name: event.content_block.name,
+            args: '',
+          });
+        } else if (event.content_block?.type?.endsWith('_tool_result')) {
+          for (const source of handleServerToolResult(event.content_block, serverTools)) {
+            enqueue({ type: 'source', source });
+          }
+        }
+      } else if (event.type === 'content_block_delta') {
+        if (telemetry && !receivedFirstToken) {
+          receivedFirstToken = true;
+          telemetry.span.setAttribute('claude_code_oauth.ms_to_first_token', Date.now() - telemetry.startedAt);
+          telemetry.span.addEvent('first_token');
+        }
+        if (event.delta?.type === 'text_delta') {
+          enqueue({
+            type: 'text-delta',
+            textDelta: event.delta.text,
+          });
+        } else if (event.delta?.type === 'citations_delta') {
+          citations.push(event.delta.citation);
+        } else if (event.delta?.type === 'thinking_delta') {
+          enqueue({
+            type: 'reasoning',
+            textDelta: event.delta.thinking,
+          });
+        } else if (event.delta?.type === 'signature_delta') {
+          enqueue({
+            type: 'reasoning-signature',
+            signature: event.delta.signature,
+          });
+        } else if (event.delta?.type === 'input_json_delta' && jsonToolBlocks.has(event.index)) {
+          if (event.delta.partial_json) {
+            enqueue({ type: 'text-delta', textDelta: event.delta.partial_json });
+          }
+        } else if (event.delta?.type === 'input_json_delta') {
+          const serverToolCall = serverToolCalls.get(event.index);
+          if (serverToolCall) {
+            serverToolCall.args += event.delta.partial_json;
+          }
+
+          const toolCall = toolCalls.get(event.index);
+          if (toolCall && event.delta.partial_json) {
+            toolCall.args += event.delta.partial_json;
+            enqueue({
+              type: 'tool-call-delta',
+              toolCallType: 'function',
+              toolCallId: toolCall.id,
+              toolName: toolCall.name,
+              argsTextDelta: event.delta.partial_json,
+            });
+          }
+        }
+      } else if (event.type === 'content_block_stop') {
+        const serverToolCall = serverToolCalls.get(event.index);
+        if (serverToolCall) {
+          let input: JSONValue = {};
+          try {
+            input = serverToolCall.args ? JSON.parse(serverToolCall.args) : {};
+          } catch {
+            input = serverToolCall.args;
+          }
+          serverTools.serverToolUses.push({ id: serverToolCall.id, name: serverToolCall.name, input });
+          serverToolCalls.delete(event.index);
+        }
+
+        const toolCall = toolCalls.get(event.index);
+        if (toolCall) {
+          enqueue({
+            type: 'tool-call',
+            toolCallType: 'function',
+            toolCallId: toolCall.id,
+            toolName: toolCall.name,
+            // Tools without parameters stream no input at all
+            args: toolCall.args || '{}',
+          });
+          toolCalls.delete(event.index);
+        }
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        finishReason = mapStopReason(event.delta?.stop_reason);
+        // The synthetic tool call is the answer, not a call to run
+        if (jsonOutput?.type === 'tool' && finishReason === 'tool-calls') {
+          finishReason = 'stop';
+        }
+      } else if (event.type === 'message_stop') {
+        finish(finishReason);
+      } else if (event.type === 'error') {
+        const errorData = event.error as AnthropicErrorData | undefined;
+        fail(new APICallError({
+          message: `Anthropic stream error (${errorData?.type}): ${errorData?.message}`,
+          url: request.url,
+          requestBodyValues: request.body,
+          isRetryable: errorData?.type === 'overloaded_error' || errorData?.type === 'api_error',
+          data: errorData,
+        }));
+      }
+    };
+
+    // Read on demand, so a consumer that cancels also cancels the upstream body
+    return new ReadableStream<LanguageModelV1StreamPart>({
+      start(streamController) {
+        controller = streamController;
+      },
+      async pull() {
         try {
-          while (true) {
+          // A chunk may complete no part, and pull() isn't called again until one is enqueued
+          const before = enqueued;
+          while (enqueued === before) {
             const { done, value } = await reader.read();
             if (done) break;
-            
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() ?? '';
-            
-            for (const line of lines) {
-              if (!line.startsWith('data: ')) continue;
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-              
-              try {
-                const event = JSON.parse(data);
-                
-                if (event.type === 'message_start') {
-                  inputTokens = event.message?.usage?.input_tokens ?? 0;
-                } else if (event.type === 'content_block_start') {
-                  if (event.content_block?.type === 'tool_use') {
-                    currentToolCallId = event.content_block.id;
-                    currentToolCallName = event.content_block.name;
-                    currentToolCallArgs = '';
-                  }
-                } else if (event.type === 'content_block_delta') {
-                  if (event.delta?.type === 'text_delta') {
-                    controller.enqueue({
-                      type: 'text-delta',
-                      textDelta: event.delta.text,
-                    });
-                  } else if (event.delta?.type === 'input_json_delta') {
-                    currentToolCallArgs += event.delta.partial_json;
-                  }
-                } else if (event.type === 'content_block_stop') {
-                  if (currentToolCallId) {
-                    controller.enqueue({
-                      type: 'tool-call',
-                      toolCallType: 'function',
-                      toolCallId: currentToolCallId,
-                      toolName: currentToolCallName,
-                      args: currentToolCallArgs,
-                    });
-                    currentToolCallId = '';
-                    currentToolCallName = '';
-                    currentToolCallArgs = '';
-                  }
-                } else if (event.type === 'message_delta') {
-                  outputTokens = event.usage?.output_tokens ?? outputTokens;
-                  
-                  let finishReason: LanguageModelV1FinishReason = 'other';
-                  if (event.delta?.stop_reason === 'end_turn') {
-                    finishReason = 'stop';
-                  } else if (event.delta?.stop_reason === 'tool_use') {
-                    finishReason = 'tool-calls';
-                  } else if (event.delta?.stop_reason === 'max_tokens') {
-                    finishReason = 'length';
-                  }
-                  
-                  controller.enqueue({
-                    type: 'finish',
-                    finishReason,
-                    usage: {
-                      promptTokens: inputTokens,
-                      completionTokens: outputTokens,
-                    },
-                  });
-                }
-              } catch {
-                // Ignore parse errors for non-JSON lines
-              }
+
+            for (const event of sse.push(decoder.decode(value, { stream: true }))) {
+              handleEvent(event);
             }
           }
-        } finally {
-          reader.releaseLock();
-          controller.close();
-        }
-      },
-    });
-  }
+          if (enqueued !== before) return;
 
-  private convertPrompt(prompt: LanguageModelV1CallOptions['prompt']): Array<{
-    role: 'user' | 'assistant';
-    content: string | Array<{ type: string; text?: string; source?: unknown }>;
-  }> {
-    const messages: Array<{
-      role: 'user' | 'assistant';
-      content: string | Array<{ type: string; text?: string; source?: unknown }>;
-    }> = [];
-    
-    for (const part of prompt) {
-      if (part.role === 'user') {
-        const content: Array<{ type: string; text?: string; source?: unknown }> = [];
-        
-        for (const item of part.content) {
-          if (item.type === 'text') {
-            content.push({ type: 'text', text: item.text });
-          } else if (item.type === 'image') {
-            if (item.image instanceof URL) {
-              content.push({
-                type: 'image',
-                source: {
-                  type: 'url',
-                  url: item.image.toString(),
-                },
-              });
-            } else {
-              // Base64 encoded image
-              const base64 = Buffer.from(item.image).toString('base64');
-              content.push({
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: item.mimeType ?? 'image/png',
-                  data: base64,
-                },
-              });
-            }
+          for (const event of [...sse.push(decoder.decode()), ...sse.flush()]) {
+            handleEvent(event);
           }
+
+          if (!finished) {
+            fail(new Error('Anthropic stream ended before message_stop'));
+          }
+        } catch (error) {
+          fail(error);
         }
-        
-        messages.push({
-          role: 'user',
-          content: content.length === 1 && content[0].type === 'text' 
-            ? content[0].text! 
-            : content,
-        });
-      } else if (part.role === 'assistant') {
-        const textParts = part.content
-          .filter(item => item.type === 'text')
-          .map(item => (item as { type: 'text'; text: string }).text)
-          .join('');
-        
-        if (textParts) {
-          messages.push({ role: 'assistant', content: textParts });
+        closed = true;
+        controller.close();
+        telemetry?.span.end();
+      },
+      async cancel(reason) {
+        // Nothing more can be enqueued, but the tokens used so far still count
+        if (!finished) {
+          finished = true;
+          request.onFinish?.(finishReason, { ...usage, input_tokens: inputTokens, output_tokens: outputTokens });
         }
-      } else if (part.role === 'tool') {
-        // Tool results go as user messages with tool_result content
-        for (const item of part.content) {
-          if (item.type === 'tool-result') {
-            messages.push({
-              role: 'user',
-              content: [{
-                type: 'tool_result',
-                tool_use_id: item.toolCallId,
-                content: typeof item.result === 'string' 
-                  ? item.result 
-                  : JSON.stringify(item.result),
-              }] as unknown as Array<{ type: string; text?: string }>,
-            });
-          }
+        if (!closed) {
+          telemetry?.span.end();
         }
-      }
-    }
-    
-    return messages;
-  }
-
-  private extractSystemMessage(prompt: LanguageModelV1CallOptions['prompt']): string | undefined {
-    for (const part of prompt) {
-      if (part.role === 'system') {
-        return part.content;
-      }
-    }
-    return undefined;
+        await reader.cancel(reason);
+      },
+    });
   }
 }
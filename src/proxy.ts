@@ -0,0 +1,382 @@
+/**
+ * Local HTTP proxy for clients that can't use this package directly.
+ *
+ * Accepts Anthropic `/v1/messages` and OpenAI `/v1/chat/completions` requests,
+ * streaming or not, and forwards them with the provider's OAuth credentials,
+ * Claude Code headers and identity system prompt. All clients share the
+ * provider's credential cache and token refresh.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { once } from 'events';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { APICallError, InvalidArgumentError } from '@ai-sdk/provider';
+
+import { callApi, type ClaudeCodeApiConfig } from './api.js';
+import { resolveModelId } from './models.js';
+import { ChatStreamTranslator, convertChatRequest, convertChatResponse, type OpenAIChatRequest } from './openai-compat.js';
+import { CLAUDE_CODE_IDENTITY, type AnthropicMessageResponse } from './provider.js';
+import { SSEDecoder } from './sse.js';
+import type { AnthropicTextBlock } from './anthropic-api-types.js';
+
+export interface ProxyServerOptions {
+  /** Defaults to 8787 */
+  port?: number;
+  /** Defaults to 127.0.0.1. Set API keys before listening on other interfaces. */
+  host?: string;
+  /**
+   * Keys clients must send as `x-api-key` or `Authorization: Bearer`.
+   * Without keys, any local client may use the credentials.
+   */
+  apiKeys?: string[];
+  /**
+   * Allowed browser origins: true for any, or a list. Defaults to none.
+   * Requests with any other `Origin` header are rejected.
+   */
+  cors?: boolean | string[];
+  /**
+   * Extra `Host` header values to accept, such as a hostname of this machine.
+   * Loopback names and the listen address are always accepted.
+   */
+  allowedHosts?: string[];
+  /** Called once per request after the response is sent */
+  onRequest?: (entry: ProxyRequestLog) => void;
+}
+
+export interface ProxyRequestLog {
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  model?: string;
+  stream?: boolean;
+  /** Message of the error returned to the client, if any */
+  error?: string;
+}
+
+export interface ClaudeCodeProxyServer {
+  /** Base URL of the server, e.g. http://127.0.0.1:8787 */
+  readonly url: string;
+  readonly server: Server;
+  close(): Promise<void>;
+}
+
+type ApiFormat = 'anthropic' | 'openai';
+
+const DEFAULT_PROXY_PORT = 8787;
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+const CORS_ALLOW_HEADERS = 'authorization, content-type, x-api-key, anthropic-version, anthropic-beta';
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_ADDRESSES = ['0.0.0.0', '::'];
+
+class ProxyRequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Prepend the Claude Code identity to a Messages API system prompt, which OAuth tokens require
+ */
+function withIdentity(system: unknown): AnthropicTextBlock[] {
+  const blocks: AnthropicTextBlock[] = typeof system === 'string'
+    ? [{ type: 'text', text: system }]
+    : Array.isArray(system) ? system : [];
+
+  return blocks[0]?.text === CLAUDE_CODE_IDENTITY
+    ? blocks
+    : [{ type: 'text', text: CLAUDE_CODE_IDENTITY }, ...blocks];
+}
+
+function isAuthorized(request: IncomingMessage, apiKeys: string[]): boolean {
+  const authorization = request.headers.authorization;
+  const key = request.headers['x-api-key']
+    ?? (authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined);
+  if (typeof key !== 'string') return false;
+
+  const received = Buffer.from(key);
+  return apiKeys.some(apiKey => {
+    const expected = Buffer.from(apiKey);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  });
+}
+
+/**
+ * Whether the request body is declared as JSON. Browsers can send other types
+ * cross-site without a CORS preflight, so nothing else is accepted.
+ */
+function isJsonRequest(request: IncomingMessage): boolean {
+  return request.headers['content-type']?.split(';')[0].trim().toLowerCase() === 'application/json';
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ProxyRequestError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  try {
+    const body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      throw new Error('not an object');
+    }
+    return body;
+  } catch {
+    throw new ProxyRequestError(400, 'Request body must be a JSON object');
+  }
+}
+
+/**
+ * An error body in the format the client speaks
+ */
+function errorBody(format: ApiFormat, status: number, message: string): unknown {
+  if (format === 'openai') {
+    return { error: { message, type: status === 401 ? 'authentication_error' : 'api_error', code: status } };
+  }
+  return {
+    type: 'error',
+    error: {
+      type: status === 401 ? 'authentication_error'
+        : status === 403 ? 'permission_error'
+        : status === 400 || status === 413 || status === 415 ? 'invalid_request_error'
+        : 'api_error',
+      message,
+    },
+  };
+}
+
+/**
+ * Start a proxy server that forwards requests with the given API config
+ */
+export async function startProxyServer(
+  config: ClaudeCodeApiConfig,
+  options: ProxyServerOptions = {},
+): Promise<ClaudeCodeProxyServer> {
+  const apiKeys = options.apiKeys ?? [];
+  // Host header values accepted, set once the server listens. Undefined accepts any.
+  let allowedHosts: Set<string> | undefined;
+
+  const isAllowedOrigin = (origin: string | undefined) =>
+    !origin || options.cors === true || (Array.isArray(options.cors) && options.cors.includes(origin));
+
+  // Checking Host stops DNS rebinding, where a web page's own hostname resolves to this server
+  const isAllowedHost = (host: string | undefined) =>
+    !allowedHosts || (host !== undefined && allowedHosts.has(host.toLowerCase()));
+
+  const setCorsHeaders = (request: IncomingMessage, response: ServerResponse) => {
+    const origin = request.headers.origin;
+    if (!origin || !options.cors) return;
+
+    response.setHeader('Access-Control-Allow-Origin', options.cors === true ? '*' : origin);
+    response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    response.setHeader('Access-Control-Allow-Headers', CORS_ALLOW_HEADERS);
+    response.setHeader('Vary', 'Origin');
+  };
+
+  const handle = async (request: IncomingMessage, response: ServerResponse, log: ProxyRequestLog) => {
+    const path = log.path;
+    const format: ApiFormat = path === '/v1/chat/completions' ? 'openai' : 'anthropic';
+
+    const sendJson = (status: number, body: unknown) => {
+      log.status = status;
+      response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+    const sendError = (status: number, message: string) => {
+      log.error = message;
+      sendJson(status, errorBody(format, status, message));
+    };
+
+    if (!isAllowedHost(request.headers.host)) {
+      sendError(403, `Host not allowed: ${request.headers.host ?? '(missing)'}`);
+      return;
+    }
+    if (!isAllowedOrigin(request.headers.origin)) {
+      sendError(403, `Origin not allowed: ${request.headers.origin}`);
+      return;
+    }
+
+    setCorsHeaders(request, response);
+
+    if (request.method === 'OPTIONS') {
+      log.status = 204;
+      response.writeHead(204).end();
+      return;
+    }
+
+    if (!['/v1/messages', '/v1/messages/count_tokens', '/v1/chat/completions'].includes(path)) {
+      sendError(404, `Not found: ${path}`);
+      return;
+    }
+    if (request.method !== 'POST') {
+      sendError(405, `Method not allowed: ${request.method}`);
+      return;
+    }
+    if (apiKeys.length > 0 && !isAuthorized(request, apiKeys)) {
+      sendError(401, 'Invalid or missing API key');
+      return;
+    }
+    if (!isJsonRequest(request)) {
+      sendError(415, 'Content-Type must be application/json');
+      return;
+    }
+
+    // Stop the upstream request when the client goes away
+    const abortController = new AbortController();
+    response.on('close', () => {
+      if (!response.writableFinished) abortController.abort();
+    });
+
+    // Wait for slow clients instead of buffering the whole stream in memory
+    const write = async (chunk: Uint8Array | string) => {
+      if (!response.write(chunk)) {
+        await once(response, 'drain', { signal: abortController.signal });
+      }
+    };
+
+    try {
+      const clientBody = await readJsonBody(request);
+      const body = format === 'openai' ? convertChatRequest(clientBody as unknown as OpenAIChatRequest) : clientBody;
+      body.system = withIdentity(body.system);
+      if (typeof body.model === 'string') {
+        body.model = resolveModelId(body.model);
+        log.model = body.model as string;
+      }
+      log.stream = body.stream === true;
+
+      const betas = String(request.headers['anthropic-beta'] ?? '').split(',').map(beta => beta.trim()).filter(Boolean);
+      const { response: upstream, responseHeaders } = await callApi(config, {
+        path: path.slice('/v1'.length),
+        body,
+        betas,
+        abortSignal: abortController.signal,
+      });
+
+      if (!log.stream) {
+        const data = await upstream.json();
+        sendJson(200, format === 'openai' ? convertChatResponse(data as AnthropicMessageResponse) : data);
+        return;
+      }
+
+      log.status = 200;
+      response.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        ...(responseHeaders['request-id'] ? { 'request-id': responseHeaders['request-id'] } : {}),
+      });
+
+      const reader = upstream.body!.getReader();
+      if (format === 'anthropic') {
+        // Pass the event stream through unchanged
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          await write(chunk.value);
+        }
+      } else {
+        const decoder = new TextDecoder();
+        const sse = new SSEDecoder();
+        const translator = new ChatStreamTranslator(clientBody as unknown as OpenAIChatRequest);
+
+        for (let chunk = await reader.read(); ; chunk = await reader.read()) {
+          const events = chunk.done
+            ? [...sse.push(decoder.decode()), ...sse.flush()]
+            : sse.push(decoder.decode(chunk.value, { stream: true }));
+          for (const event of events) {
+            for (const out of translator.translate(event)) {
+              await write(`data: ${out === '[DONE]' ? out : JSON.stringify(out)}\n\n`);
+            }
+          }
+          if (chunk.done) break;
+        }
+      }
+      response.end();
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        log.status = 499;
+        log.error = 'Client closed the connection';
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      if (response.headersSent) {
+        // Mid-stream failure: the status is already sent, so end the stream with an error event
+        log.error = message;
+        response.end(format === 'openai'
+          ? `data: ${JSON.stringify(errorBody(format, 500, message))}\n\n`
+          : `event: error\ndata: ${JSON.stringify(errorBody(format, 500, message))}\n\n`);
+      } else if (APICallError.isInstance(error) && error.statusCode) {
+        // Relay the upstream status, in Anthropic's own error format where it applies
+        log.error = message;
+        log.status = error.statusCode;
+        response.writeHead(error.statusCode, { 'Content-Type': 'application/json' });
+        response.end(format === 'anthropic' && error.responseBody
+          ? error.responseBody
+          : JSON.stringify(errorBody(format, error.statusCode, message)));
+      } else if (error instanceof ProxyRequestError) {
+        sendError(error.status, error.message);
+      } else if (InvalidArgumentError.isInstance(error)) {
+        sendError(400, message);
+      } else {
+        sendError(502, message);
+      }
+    }
+  };
+
+  const server = createServer((request, response) => {
+    const started = Date.now();
+    const log: ProxyRequestLog = {
+      method: request.method ?? 'GET',
+      path: new URL(request.url ?? '/', 'http://localhost').pathname,
+      status: 500,
+      durationMs: 0,
+    };
+
+    handle(request, response, log)
+      .catch(error => {
+        config.logger.error('Proxy request failed', { error });
+        if (!response.headersSent) response.writeHead(500);
+        response.end();
+      })
+      .finally(() => {
+        log.durationMs = Date.now() - started;
+        try {
+          options.onRequest?.(log);
+        } catch (error) {
+          config.logger.error('Proxy onRequest callback threw', { error });
+        }
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? DEFAULT_PROXY_PORT, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  const { address, port } = server.address() as { address: string; port: number };
+  const host = address.includes(':') ? `[${address}]` : address;
+
+  // On all interfaces the names clients use aren't known; API keys protect the server there instead
+  if (!WILDCARD_ADDRESSES.includes(address) || apiKeys.length === 0) {
+    allowedHosts = new Set(
+      [...LOOPBACK_HOSTS, host, options.host, ...(options.allowedHosts ?? [])]
+        .filter((name): name is string => !!name && !WILDCARD_ADDRESSES.includes(name))
+        .flatMap(name => (port === 80 ? [name, `${name}:${port}`] : [`${name}:${port}`]))
+        .map(name => name.toLowerCase()),
+    );
+  }
+
+  return {
+    url: `http://${host}:${port}`,
+    server,
+    close() {
+      return new Promise((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      });
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Rate-limit and subscription quota tracking from response headers
+ *
+ * OAuth traffic shares the user's Claude subscription limits, reported through
+ * `anthropic-ratelimit-unified-*` headers alongside the classic
+ * `anthropic-ratelimit-{requests,tokens,input-tokens,output-tokens}-*` ones.
+ */
+
+import type { ClaudeCodeCredentials } from './credentials.js';
+import { resolveLogger, type Logger } from './logger.js';
+
+/**
+ * A classic per-minute rate limit (requests or tokens)
+ */
+export interface RateLimitWindow {
+  limit?: number;
+  remaining?: number;
+  /** Epoch milliseconds when the limit is fully replenished */
+  resetsAt?: number;
+}
+
+/**
+ * One subscription limit window, e.g. the 5-hour or 7-day window
+ */
+export interface SubscriptionLimitWindow {
+  /** 'allowed', 'allowed_warning' or 'rejected' */
+  status?: string;
+  /** Epoch milliseconds when the window resets */
+  resetsAt?: number;
+  /** Fraction of the window used, from 0 to 1 */
+  utilization?: number;
+}
+
+/**
+ * Quota state captured from one response
+ */
+export interface QuotaSnapshot {
+  /** Epoch milliseconds when the snapshot was taken */
+  capturedAt: number;
+  requests?: RateLimitWindow;
+  tokens?: RateLimitWindow;
+  inputTokens?: RateLimitWindow;
+  outputTokens?: RateLimitWindow;
+  /** Seconds to wait before retrying, from `retry-after` */
+  retryAfterSeconds?: number;
+  /** Unified subscription limits */
+  subscription?: {
+    /** Overall status: 'allowed', 'allowed_warning' or 'rejected' */
+    status?: string;
+    /** Epoch milliseconds when the binding limit resets */
+    resetsAt?: number;
+    /** The window currently binding, e.g. 'five_hour' or 'seven_day' */
+    representativeClaim?: string;
+    fallbackPercentage?: number;
+    /** Windows by header name, e.g. '5h' and '7d' */
+    windows: Record<string, SubscriptionLimitWindow>;
+  };
+  /** From the credentials used for the request */
+  subscriptionType: string | null;
+  rateLimitTier: string | null;
+}
+
+const RATE_LIMIT_PREFIX = 'anthropic-ratelimit-';
+const UNIFIED_PREFIX = 'anthropic-ratelimit-unified-';
+const UNIFIED_WINDOW_PATTERN = /^anthropic-ratelimit-unified-(.+)-(status|reset|utilization)$/;
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toTimestamp(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function toEpochSeconds(value: string | undefined): number | undefined {
+  const seconds = toNumber(value);
+  return seconds === undefined ? undefined : seconds * 1000;
+}
+
+function parseWindow(headers: Record<string, string>, name: string): RateLimitWindow | undefined {
+  const window: RateLimitWindow = {
+    limit: toNumber(headers[`${RATE_LIMIT_PREFIX}${name}-limit`]),
+    remaining: toNumber(headers[`${RATE_LIMIT_PREFIX}${name}-remaining`]),
+    resetsAt: toTimestamp(headers[`${RATE_LIMIT_PREFIX}${name}-reset`]),
+  };
+  return Object.values(window).some(value => value !== undefined) ? window : undefined;
+}
+
+/**
+ * Parse rate-limit headers into a quota snapshot.
+ * Returns undefined if the response carries no rate-limit information.
+ */
+export function parseQuotaHeaders(
+  headers: Record<string, string>,
+  credentials?: ClaudeCodeCredentials,
+): QuotaSnapshot | undefined {
+  const names = Object.keys(headers);
+  if (!names.some(name => name.startsWith(RATE_LIMIT_PREFIX)) && headers['retry-after'] === undefined) {
+    return undefined;
+  }
+
+  const snapshot: QuotaSnapshot = {
+    capturedAt: Date.now(),
+    requests: parseWindow(headers, 'requests'),
+    tokens: parseWindow(headers, 'tokens'),
+    inputTokens: parseWindow(headers, 'input-tokens'),
+    outputTokens: parseWindow(headers, 'output-tokens'),
+    retryAfterSeconds: toNumber(headers['retry-after']),
+    subscriptionType: credentials?.claudeAiOauth.subscriptionType ?? null,
+    rateLimitTier: credentials?.claudeAiOauth.rateLimitTier ?? null,
+  };
+
+  if (names.some(name => name.startsWith(UNIFIED_PREFIX))) {
+    const windows: Record<string, SubscriptionLimitWindow> = {};
+
+    for (const name of names) {
+      const match = UNIFIED_WINDOW_PATTERN.exec(name);
+      if (!match) continue;
+
+      const [, windowName, field] = match;
+      const window = (windows[windowName] ??= {});
+      if (field === 'status') {
+        window.status = headers[name];
+      } else if (field === 'reset') {
+        window.resetsAt = toEpochSeconds(headers[name]);
+      } else {
+        window.utilization = toNumber(headers[name]);
+      }
+    }
+
+    snapshot.subscription = {
+      status: headers[`${UNIFIED_PREFIX}status`],
+      resetsAt: toEpochSeconds(headers[`${UNIFIED_PREFIX}reset`]),
+      representativeClaim: headers[`${UNIFIED_PREFIX}representative-claim`],
+      fallbackPercentage: toNumber(headers[`${UNIFIED_PREFIX}fallback-percentage`]),
+      windows,
+    };
+  }
+
+  return snapshot;
+}
+
+/**
+ * Keeps the latest quota snapshot of a provider instance
+ */
+export class QuotaTracker {
+  private latest: QuotaSnapshot | null = null;
+  private readonly onRateLimit?: (snapshot: QuotaSnapshot) => void;
+  private readonly logger: Logger;
+
+  constructor(onRateLimit?: (snapshot: QuotaSnapshot) => void, logger: Logger = resolveLogger()) {
+    this.onRateLimit = onRateLimit;
+    this.logger = logger;
+  }
+
+  /**
+   * Record the rate-limit headers of a response
+   */
+  update(headers: Record<string, string>, credentials?: ClaudeCodeCredentials): QuotaSnapshot | undefined {
+    const snapshot = parseQuotaHeaders(headers, credentials);
+    if (!snapshot) return undefined;
+
+    this.latest = snapshot;
+    try {
+      this.onRateLimit?.(snapshot);
+    } catch (error) {
+      this.logger.warn('onRateLimit callback failed', { error });
+    }
+    return snapshot;
+  }
+
+  /**
+   * The most recent snapshot, or null before the first response
+   */
+  get(): QuotaSnapshot | null {
+    return this.latest;
+  }
+}
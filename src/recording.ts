@@ -0,0 +1,290 @@
+/**
+ * Record/replay of API calls for deterministic offline runs
+ *
+ * In record mode every response is saved next to its normalized request, one
+ * JSON file per request keyed by a hash of the request. Replay mode serves the
+ * files back without network access or credentials; streams are replayed one
+ * SSE event per chunk.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import { RecordingMismatchError } from './errors.js';
+import type { Logger } from './logger.js';
+
+export type ClaudeCodeRecordingMode = 'record' | 'replay' | 'passthrough';
+
+export interface ClaudeCodeRecordingOptions {
+  /** 'record' saves responses, 'replay' serves them back, 'passthrough' does neither */
+  mode: ClaudeCodeRecordingMode;
+  /** Directory of the recordings */
+  dir: string;
+}
+
+/**
+ * One request and its response, as stored on disk
+ */
+export interface ClaudeCodeRecording {
+  request: {
+    method: string;
+    path: string;
+    /** With object keys sorted and undefined values dropped */
+    body: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    /** JSON response body */
+    body?: unknown;
+    /** Other response bodies */
+    text?: string;
+    /** Raw SSE events of a streamed response, in order */
+    events?: string[];
+  };
+}
+
+interface RecordedRequest {
+  method?: string;
+  path: string;
+  body?: unknown;
+}
+
+// Headers that describe the original transfer, not the recorded body
+const DROPPED_RESPONSE_HEADERS = new Set(['content-encoding', 'content-length', 'transfer-encoding', 'set-cookie']);
+const MAX_DIFF_LINES = 20;
+const MAX_DIFF_VALUE_LENGTH = 80;
+
+/**
+ * JSON with object keys sorted, so equal bodies always serialize the same way
+ */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, current: unknown) => {
+    if (typeof current !== 'object' || current === null || Array.isArray(current)) return current;
+    return Object.fromEntries(Object.entries(current).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+  });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function previewValue(value: unknown): string {
+  if (value === undefined) return '(missing)';
+  const text = stableStringify(value);
+  return text.length > MAX_DIFF_VALUE_LENGTH ? `${text.slice(0, MAX_DIFF_VALUE_LENGTH)}…` : text;
+}
+
+/**
+ * Differences between two JSON values by path, as `- recorded` / `+ requested` line pairs
+ */
+function diffJson(recorded: unknown, requested: unknown, path = '', lines: string[] = []): string[] {
+  if (lines.length >= MAX_DIFF_LINES * 2) return lines;
+
+  if (isPlainObject(recorded) && isPlainObject(requested)) {
+    const keys = [...new Set([...Object.keys(recorded), ...Object.keys(requested)])].sort();
+    for (const key of keys) {
+      diffJson(recorded[key], requested[key], path ? `${path}.${key}` : key, lines);
+    }
+  } else if (Array.isArray(recorded) && Array.isArray(requested)) {
+    for (let index = 0; index < Math.max(recorded.length, requested.length); index++) {
+      diffJson(recorded[index], requested[index], `${path}[${index}]`, lines);
+    }
+  } else if (stableStringify(recorded) !== stableStringify(requested)) {
+    lines.push(`- ${path || '(body)'}: ${previewValue(recorded)}`, `+ ${path || '(body)'}: ${previewValue(requested)}`);
+  }
+  return lines;
+}
+
+/**
+ * Split an SSE body into events, each with its trailing blank line
+ */
+function splitEvents(text: string): string[] {
+  return text.split(/(?<=\r?\n\r?\n)/).filter(event => event.trim() !== '');
+}
+
+/**
+ * Saves and serves API responses for one provider instance
+ */
+export class RequestRecorder {
+  readonly mode: ClaudeCodeRecordingMode;
+  readonly dir: string;
+
+  private readonly logger: Logger;
+
+  constructor(options: ClaudeCodeRecordingOptions, logger: Logger) {
+    this.mode = options.mode;
+    this.dir = options.dir;
+    this.logger = logger;
+  }
+
+  /**
+   * Hash a request is stored under
+   */
+  getKey(request: RecordedRequest): string {
+    return createHash('sha256')
+      .update(stableStringify({ method: request.method ?? 'POST', path: request.path, body: request.body }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Save a successful response. Streamed bodies are saved once the caller has read them to the end.
+   * Returns a response to use in place of the consumed one.
+   */
+  async record(request: RecordedRequest, response: Response, streamed: boolean): Promise<Response> {
+    const status = response.status;
+    const headers = this.getRecordedHeaders(response.headers);
+
+    if (!streamed || !response.body) {
+      const text = await response.text();
+      await this.save(request, { status, headers, ...this.parseBody(text) });
+      return new Response(text, { status, headers: response.headers });
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    const body = new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        const chunk = await reader.read();
+        if (chunk.done) {
+          text += decoder.decode();
+          await this.save(request, { status, headers, events: splitEvents(text) });
+          controller.close();
+          return;
+        }
+        text += decoder.decode(chunk.value, { stream: true });
+        controller.enqueue(chunk.value);
+      },
+      cancel: reason => reader.cancel(reason),
+    });
+    return new Response(body, { status, headers: response.headers });
+  }
+
+  /**
+   * Save a failed response, so replay throws the same APICallError
+   */
+  async recordError(
+    request: RecordedRequest,
+    error: { statusCode?: number; responseHeaders?: Record<string, string>; responseBody?: string },
+  ): Promise<void> {
+    if (!error.statusCode) return;
+
+    await this.save(request, {
+      status: error.statusCode,
+      headers: this.getRecordedHeaders(new Headers(error.responseHeaders)),
+      ...this.parseBody(error.responseBody ?? ''),
+    });
+  }
+
+  /**
+   * The recorded response for a request. Throws RecordingMismatchError if there is none.
+   */
+  async replay(request: RecordedRequest, abortSignal?: AbortSignal): Promise<Response> {
+    abortSignal?.throwIfAborted();
+
+    const key = this.getKey(request);
+    let recording: ClaudeCodeRecording;
+    try {
+      recording = JSON.parse(await readFile(join(this.dir, `${key}.json`), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw await this.createMismatchError(key, request);
+      }
+      throw error;
+    }
+
+    const { status, headers, body, text, events } = recording.response;
+    if (!events) {
+      return new Response(body !== undefined ? JSON.stringify(body) : text ?? '', { status, headers });
+    }
+
+    const encoder = new TextEncoder();
+    let index = 0;
+    return new Response(new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (index < events.length) {
+          controller.enqueue(encoder.encode(events[index++]));
+        } else {
+          controller.close();
+        }
+      },
+    }), { status, headers });
+  }
+
+  private getRecordedHeaders(headers: Headers): Record<string, string> {
+    const recorded: Record<string, string> = {};
+    headers.forEach((value, name) => {
+      if (!DROPPED_RESPONSE_HEADERS.has(name)) {
+        recorded[name] = value;
+      }
+    });
+    return recorded;
+  }
+
+  private parseBody(text: string): { body: unknown } | { text: string } {
+    try {
+      return { body: JSON.parse(text) };
+    } catch {
+      return { text };
+    }
+  }
+
+  private async save(request: RecordedRequest, response: ClaudeCodeRecording['response']): Promise<void> {
+    const recording: ClaudeCodeRecording = {
+      request: {
+        method: request.method ?? 'POST',
+        path: request.path,
+        body: JSON.parse(stableStringify(request.body)),
+      },
+      response,
+    };
+
+    const path = join(this.dir, `${this.getKey(request)}.json`);
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(path, `${JSON.stringify(recording, null, 2)}\n`);
+      this.logger.debug(`Recorded ${recording.request.method} ${request.path} to ${path}`);
+    } catch (error) {
+      this.logger.warn(`Failed to save recording ${path}`, { error });
+    }
+  }
+
+  /**
+   * Error for a request without a recording, diffed against the closest recording of the same endpoint
+   */
+  private async createMismatchError(key: string, request: RecordedRequest): Promise<RecordingMismatchError> {
+    const method = request.method ?? 'POST';
+    const body = JSON.parse(stableStringify(request.body));
+    let closest: { file: string; diff: string[] } | undefined;
+
+    const files = await readdir(this.dir).catch(() => [] as string[]);
+    for (const file of files.filter(name => name.endsWith('.json')).sort()) {
+      let recording: ClaudeCodeRecording;
+      try {
+        recording = JSON.parse(await readFile(join(this.dir, file), 'utf-8'));
+      } catch {
+        continue;
+      }
+      if (recording.request?.method !== method || recording.request.path !== request.path) continue;
+
+      const diff = diffJson(recording.request.body, body);
+      if (!closest || diff.length < closest.diff.length) {
+        closest = { file: join(this.dir, file), diff };
+      }
+    }
+
+    const summary = `No recording for ${method} ${request.path} (key ${key}) in ${this.dir}.`;
+    return new RecordingMismatchError({
+      message: closest
+        ? `${summary} Closest recording: ${closest.file}, which differs in:\n${closest.diff.join('\n')}`
+        : `${summary} Run once with mode 'record' to create it.`,
+      key,
+      closestRecording: closest?.file,
+      diff: closest?.diff ?? [],
+    });
+  }
+}
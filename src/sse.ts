@@ -0,0 +1,109 @@
+/**
+ * Incremental Server-Sent Events decoder
+ * Follows the WHATWG event stream format: LF, CRLF and CR line endings,
+ * multi-line `data:` fields, comments and the optional space after the colon.
+ */
+
+export interface SSEEvent {
+  /** Event type, 'message' when the frame has no `event:` field */
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export class SSEDecoder {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId?: string;
+  private pendingCR = false;
+
+  /**
+   * Feed a decoded text chunk and get the events it completes
+   */
+  push(chunk: string): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    let text = chunk;
+
+    // A CR at the end of the previous chunk may be the first half of a CRLF
+    if (this.pendingCR && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.pendingCR = false;
+
+    this.buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCR = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          this.processLine(this.buffer.slice(start, i), events);
+          i++;
+          start = i + 1;
+          continue;
+        }
+      }
+
+      this.processLine(this.buffer.slice(start, i), events);
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return events;
+  }
+
+  /**
+   * Dispatch a final event that wasn't terminated by a blank line
+   */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      this.processLine(this.buffer, events);
+      this.buffer = '';
+    }
+    this.dispatch(events);
+    return events;
+  }
+
+  private processLine(line: string, events: SSEEvent[]): void {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+
+    // Comment line
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    if (field === 'event') {
+      this.eventType = value;
+    } else if (field === 'data') {
+      this.dataLines.push(value);
+    } else if (field === 'id' && !value.includes('\0')) {
+      this.lastEventId = value;
+    }
+  }
+
+  private dispatch(events: SSEEvent[]): void {
+    if (this.dataLines.length > 0) {
+      events.push({
+        event: this.eventType || 'message',
+        data: this.dataLines.join('\n'),
+        ...(this.lastEventId !== undefined ? { id: this.lastEventId } : {}),
+      });
+    }
+    this.eventType = '';
+    this.dataLines = [];
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Request lifecycle hooks and OpenTelemetry spans
+ *
+ * Spans are only created when a tracer is configured; `@opentelemetry/api`
+ * is an optional peer dependency used for its types.
+ */
+
+import type { Attributes, Span, Tracer } from '@opentelemetry/api';
+
+import { redactSecrets, type Logger } from './logger.js';
+import type { QuotaSnapshot } from './quota.js';
+
+/**
+ * An API request about to be sent. Headers have the bearer token redacted.
+ */
+export interface ClaudeCodeRequestEvent {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** The request body as built for the API */
+  body: unknown;
+  /** 1 for the first attempt, 2 for the retry after a 401 */
+  attempt: number;
+}
+
+export interface ClaudeCodeResponseEvent {
+  url: string;
+  method: string;
+  body: unknown;
+  status: number;
+  responseHeaders: Record<string, string>;
+  /** From sending the first attempt to the response headers */
+  durationMs: number;
+  quota: QuotaSnapshot | undefined;
+}
+
+export interface ClaudeCodeErrorEvent {
+  url: string;
+  method: string;
+  body: unknown;
+  /** The thrown error, reduced to its name and redacted message */
+  error: { name: string; message: string };
+  /** HTTP status, when the API answered with an error */
+  status?: number;
+  durationMs: number;
+}
+
+/**
+ * Callbacks around every API call. Payloads are redacted copies; errors thrown by hooks are logged and ignored.
+ */
+export interface ClaudeCodeRequestHooks {
+  onRequest?: (event: ClaudeCodeRequestEvent) => void;
+  onResponse?: (event: ClaudeCodeResponseEvent) => void;
+  onError?: (event: ClaudeCodeErrorEvent) => void;
+}
+
+// SpanStatusCode.ERROR, without a runtime dependency on @opentelemetry/api
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Call a hook with a redacted copy of its event
+ */
+export function emitHook<K extends keyof ClaudeCodeRequestHooks>(
+  hooks: ClaudeCodeRequestHooks | undefined,
+  name: K,
+  event: Parameters<NonNullable<ClaudeCodeRequestHooks[K]>>[0],
+  logger: Logger,
+): void {
+  const hook = hooks?.[name] as ((event: unknown) => void) | undefined;
+  if (!hook) return;
+
+  try {
+    hook(redactSecrets(event));
+  } catch (error) {
+    logger.warn(`${name} hook failed`, { error });
+  }
+}
+
+/**
+ * Mark a span as failed
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: error instanceof Error ? error.message : String(error) });
+}
+
+/**
+ * Run `fn` inside an active span, or directly without a tracer
+ */
+export function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span | undefined) => Promise<T>,
+): Promise<T> {
+  if (!tracer) {
+    return fn(undefined);
+  }
+
+  return tracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+export type { Span, Tracer };
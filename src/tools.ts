@@ -0,0 +1,248 @@
+/**
+ * Anthropic provider-defined tools
+ *
+ * Server tools (web search, code execution) run on Anthropic's side; their
+ * calls and results come back as content blocks. Client tools (bash, text
+ * editor, computer) have fixed schemas and are executed by your `execute`.
+ *
+ * Tools must be registered under the name the API expects, e.g.
+ * `tools: { bash: claudeCode.tools.bash_20250124({ execute }) }`.
+ */
+
+import { z } from 'zod';
+
+type ToolResultContent = Array<
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType?: string }
+>;
+
+export interface ClaudeCodeToolExecutionOptions {
+  toolCallId: string;
+  messages: unknown[];
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * A provider-defined tool, usable in the `tools` of `generateText` and `streamText`
+ */
+export interface ClaudeCodeProviderTool<PARAMETERS extends z.ZodTypeAny = z.ZodTypeAny, RESULT = unknown> {
+  type: 'provider-defined';
+  id: `anthropic.${string}`;
+  args: Record<string, unknown>;
+  parameters: PARAMETERS;
+  /** The same schema under its AI SDK 5 name */
+  inputSchema: PARAMETERS;
+  execute?: (args: z.infer<PARAMETERS>, options: ClaudeCodeToolExecutionOptions) => PromiseLike<RESULT>;
+  experimental_toToolResultContent?: (result: RESULT) => ToolResultContent;
+}
+
+interface ClientToolOptions<PARAMETERS extends z.ZodTypeAny, RESULT> {
+  execute?: ClaudeCodeProviderTool<PARAMETERS, RESULT>['execute'];
+  experimental_toToolResultContent?: (result: RESULT) => ToolResultContent;
+}
+
+/**
+ * API tool definition and beta flag for each provider-defined tool ID
+ */
+const PROVIDER_TOOLS: Record<string, { type: string; name: string; beta?: string }> = {
+  'anthropic.web_search_20250305': { type: 'web_search_20250305', name: 'web_search' },
+  'anthropic.code_execution_20250522': {
+    type: 'code_execution_20250522',
+    name: 'code_execution',
+    beta: 'code-execution-2025-05-22',
+  },
+  'anthropic.bash_20250124': { type: 'bash_20250124', name: 'bash', beta: 'computer-use-2025-01-24' },
+  'anthropic.text_editor_20250124': {
+    type: 'text_editor_20250124',
+    name: 'str_replace_editor',
+    beta: 'computer-use-2025-01-24',
+  },
+  'anthropic.text_editor_20250429': { type: 'text_editor_20250429', name: 'str_replace_based_edit_tool' },
+  'anthropic.computer_20250124': { type: 'computer_20250124', name: 'computer', beta: 'computer-use-2025-01-24' },
+};
+
+/**
+ * Map a provider-defined tool to its Messages API definition.
+ * Returns undefined for tool IDs this provider doesn't know.
+ */
+export function prepareProviderTool(id: string, args: Record<string, unknown>): {
+  tool: Record<string, unknown>;
+  beta?: string;
+} | undefined {
+  const definition = PROVIDER_TOOLS[id];
+  if (!definition) return undefined;
+
+  const tool: Record<string, unknown> = { type: definition.type, name: definition.name };
+
+  if (definition.type === 'web_search_20250305') {
+    const userLocation = args.userLocation as Record<string, string | undefined> | undefined;
+    Object.assign(tool, {
+      max_uses: args.maxUses,
+      allowed_domains: args.allowedDomains,
+      blocked_domains: args.blockedDomains,
+      user_location: userLocation ? { type: 'approximate', ...userLocation } : undefined,
+    });
+  } else if (definition.type === 'computer_20250124') {
+    Object.assign(tool, {
+      display_width_px: args.displayWidthPx,
+      display_height_px: args.displayHeightPx,
+      display_number: args.displayNumber,
+    });
+  }
+
+  return { tool, beta: definition.beta };
+}
+
+const bashParameters = z.object({
+  command: z.string().optional(),
+  restart: z.boolean().optional(),
+});
+
+const textEditorParameters = z.object({
+  command: z.enum(['view', 'create', 'str_replace', 'insert', 'undo_edit']),
+  path: z.string(),
+  file_text: z.string().optional(),
+  insert_line: z.number().int().optional(),
+  new_str: z.string().optional(),
+  old_str: z.string().optional(),
+  view_range: z.array(z.number().int()).optional(),
+});
+
+const computerParameters = z.object({
+  action: z.enum([
+    'key',
+    'hold_key',
+    'type',
+    'cursor_position',
+    'mouse_move',
+    'left_mouse_down',
+    'left_mouse_up',
+    'left_click',
+    'left_click_drag',
+    'right_click',
+    'middle_click',
+    'double_click',
+    'triple_click',
+    'scroll',
+    'wait',
+    'screenshot',
+  ]),
+  coordinate: z.tuple([z.number().int(), z.number().int()]).optional(),
+  duration: z.number().optional(),
+  scroll_amount: z.number().optional(),
+  scroll_direction: z.enum(['up', 'down', 'left', 'right']).optional(),
+  start_coordinate: z.tuple([z.number().int(), z.number().int()]).optional(),
+  text: z.string().optional(),
+});
+
+// Server tools take no input from the client; the API fills it in
+const serverToolParameters = z.object({}).passthrough();
+
+/**
+ * Web search, run by Anthropic. Results come back as `source` parts.
+ */
+function webSearch_20250305(args: {
+  maxUses?: number;
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  userLocation?: { city?: string; region?: string; country?: string; timezone?: string };
+} = {}): ClaudeCodeProviderTool<typeof serverToolParameters> {
+  return {
+    type: 'provider-defined',
+    id: 'anthropic.web_search_20250305',
+    args,
+    parameters: serverToolParameters,
+    inputSchema: serverToolParameters,
+  };
+}
+
+/**
+ * Python code execution in an Anthropic sandbox
+ */
+function codeExecution_20250522(): ClaudeCodeProviderTool<typeof serverToolParameters> {
+  return {
+    type: 'provider-defined',
+    id: 'anthropic.code_execution_20250522',
+    args: {},
+    parameters: serverToolParameters,
+    inputSchema: serverToolParameters,
+  };
+}
+
+/**
+ * Bash shell, executed by your `execute`. Register as `bash`.
+ */
+function bash_20250124<RESULT>(
+  options: ClientToolOptions<typeof bashParameters, RESULT> = {},
+): ClaudeCodeProviderTool<typeof bashParameters, RESULT> {
+  return {
+    type: 'provider-defined',
+    id: 'anthropic.bash_20250124',
+    args: {},
+    parameters: bashParameters,
+    inputSchema: bashParameters,
+    ...options,
+  };
+}
+
+/**
+ * Text editor for Claude 3.7. Register as `str_replace_editor`.
+ */
+function textEditor_20250124<RESULT>(
+  options: ClientToolOptions<typeof textEditorParameters, RESULT> = {},
+): ClaudeCodeProviderTool<typeof textEditorParameters, RESULT> {
+  return {
+    type: 'provider-defined',
+    id: 'anthropic.text_editor_20250124',
+    args: {},
+    parameters: textEditorParameters,
+    inputSchema: textEditorParameters,
+    ...options,
+  };
+}
+
+/**
+ * Text editor for Claude 4 models. Register as `str_replace_based_edit_tool`.
+ */
+function textEditor_20250429<RESULT>(
+  options: ClientToolOptions<typeof textEditorParameters, RESULT> = {},
+): ClaudeCodeProviderTool<typeof textEditorParameters, RESULT> {
+  return {
+    type: 'provider-defined',
+    id: 'anthropic.text_editor_20250429',
+    args: {},
+    parameters: textEditorParameters,
+    inputSchema: textEditorParameters,
+    ...options,
+  };
+}
+
+/**
+ * Computer use (screen, mouse and keyboard). Register as `computer`.
+ */
+function computer_20250124<RESULT>(
+  options: ClientToolOptions<typeof computerParameters, RESULT> & {
+    displayWidthPx: number;
+    displayHeightPx: number;
+    displayNumber?: number;
+  },
+): ClaudeCodeProviderTool<typeof computerParameters, RESULT> {
+  const { displayWidthPx, displayHeightPx, displayNumber, ...clientOptions } = options;
+  return {
+    type: 'provider-defined',
+    id: 'anthropic.computer_20250124',
+    args: { displayWidthPx, displayHeightPx, displayNumber },
+    parameters: computerParameters,
+    inputSchema: computerParameters,
+    ...clientOptions,
+  };
+}
+
+export const claudeCodeTools = {
+  webSearch_20250305,
+  codeExecution_20250522,
+  bash_20250124,
+  textEditor_20250124,
+  textEditor_20250429,
+  computer_20250124,
+};
@@ -0,0 +1,326 @@
+/**
+ * Local usage ledger: per-call token records, summaries with API-price
+ * cost equivalents, and token budgets
+ *
+ * Subscription usage has no bill, so the cost is what the same tokens would
+ * cost at API list prices. Records go to a pluggable sink, by default a JSONL
+ * file that several processes can append to.
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+import { UsageBudgetExceededError } from './errors.js';
+import { resolveLogger, type Logger, type LogLevel } from './logger.js';
+import { getModelInfo } from './models.js';
+
+/**
+ * One model call, as written to the sink
+ */
+export interface ClaudeCodeUsageRecord {
+  /** ISO 8601 time the call finished */
+  timestamp: string;
+  model: string;
+  /** Caller tag from the call, model or ledger settings */
+  tag?: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  /** From sending the request to the end of the response */
+  durationMs: number;
+  finishReason: string;
+  /** What the tokens would cost at API list prices in USD. Missing for models without a price */
+  costUsd?: number;
+}
+
+/**
+ * Where usage records are kept
+ */
+export interface UsageSink {
+  /** Human-readable location of the records, used in log messages */
+  readonly description: string;
+  append(record: ClaudeCodeUsageRecord): void | Promise<void>;
+  /**
+   * Load earlier records for summaries and budgets.
+   * Without it, only calls recorded by this process are counted.
+   */
+  read?(): ClaudeCodeUsageRecord[] | Promise<ClaudeCodeUsageRecord[]>;
+}
+
+/**
+ * A token limit. Input (including cache reads and writes) and output tokens count.
+ */
+export interface ClaudeCodeUsageBudget {
+  maxTokens: number;
+  /** Only count and limit calls with this tag. Without it the budget covers all calls */
+  tag?: string;
+  /** 'day' (the current UTC day, default) or 'all' recorded usage */
+  period?: 'day' | 'all';
+}
+
+export interface UsageLedgerOptions {
+  /** A sink or a JSONL file path. Defaults to ~/.claude/ai-sdk-usage.jsonl */
+  sink?: UsageSink | string;
+  /** Calls are refused with UsageBudgetExceededError once any budget is used up */
+  budgets?: ClaudeCodeUsageBudget[];
+  /** Tag for calls that set none */
+  tag?: string;
+  /** Logger or console log level. Defaults to console warnings and errors */
+  logger?: Logger | LogLevel;
+}
+
+export type ClaudeCodeUsageGroupBy = 'model' | 'tag' | 'day' | 'finishReason';
+
+export interface ClaudeCodeUsageSummaryOptions {
+  /** Only count calls at or after this time */
+  since?: Date | number;
+  /** Only count calls before this time */
+  until?: Date | number;
+  /** Also break the totals down by this field. Days are UTC dates (YYYY-MM-DD) */
+  groupBy?: ClaudeCodeUsageGroupBy;
+}
+
+export interface ClaudeCodeUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  /** Input, cache and output tokens */
+  totalTokens: number;
+  /** API-price equivalent in USD, leaving out models without a price */
+  costUsd: number;
+  durationMs: number;
+}
+
+export interface ClaudeCodeUsageSummary extends ClaudeCodeUsageTotals {
+  /** Totals per group, largest first. Calls without a tag are grouped under '' */
+  groups?: Array<ClaudeCodeUsageTotals & { key: string }>;
+}
+
+export const DEFAULT_USAGE_PATH = join(homedir(), '.claude', 'ai-sdk-usage.jsonl');
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+/**
+ * API-price equivalent of a call's tokens in USD, or undefined for models without a price
+ */
+export function estimateCost(
+  modelId: string,
+  usage: Pick<ClaudeCodeUsageRecord, 'inputTokens' | 'outputTokens' | 'cacheCreationInputTokens' | 'cacheReadInputTokens'>,
+): number | undefined {
+  const pricing = getModelInfo(modelId)?.pricing;
+  if (!pricing) return undefined;
+
+  return (
+    usage.inputTokens * pricing.input
+    + usage.outputTokens * pricing.output
+    + usage.cacheCreationInputTokens * pricing.cacheWrite
+    + usage.cacheReadInputTokens * pricing.cacheRead
+  ) / TOKENS_PER_PRICE_UNIT;
+}
+
+function totalTokens(record: ClaudeCodeUsageRecord): number {
+  return record.inputTokens + record.outputTokens + record.cacheCreationInputTokens + record.cacheReadInputTokens;
+}
+
+function emptyTotals(): ClaudeCodeUsageTotals {
+  return {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    durationMs: 0,
+  };
+}
+
+function addRecord(totals: ClaudeCodeUsageTotals, record: ClaudeCodeUsageRecord): void {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheCreationInputTokens += record.cacheCreationInputTokens;
+  totals.cacheReadInputTokens += record.cacheReadInputTokens;
+  totals.totalTokens += totalTokens(record);
+  totals.costUsd += record.costUsd ?? 0;
+  totals.durationMs += record.durationMs;
+}
+
+function groupKey(record: ClaudeCodeUsageRecord, groupBy: ClaudeCodeUsageGroupBy): string {
+  return groupBy === 'day' ? record.timestamp.slice(0, 10) : record[groupBy] ?? '';
+}
+
+/**
+ * Create a sink that appends records to a JSONL file
+ * @param path - Defaults to ~/.claude/ai-sdk-usage.jsonl
+ */
+export function createFileUsageSink(path: string = DEFAULT_USAGE_PATH): UsageSink & { readonly path: string } {
+  return {
+    path,
+    description: path,
+    async append(record) {
+      await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+      await appendFile(path, `${JSON.stringify(record)}\n`, { mode: 0o600 });
+    },
+    async read() {
+      let content: string;
+      try {
+        content = await readFile(path, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+
+      const records: ClaudeCodeUsageRecord[] = [];
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a crashed writer
+        }
+      }
+      return records;
+    },
+  };
+}
+
+/**
+ * Create a sink that keeps records in memory
+ */
+export function createMemoryUsageSink(records: ClaudeCodeUsageRecord[] = []): UsageSink {
+  return {
+    description: 'memory',
+    append(record) {
+      records.push(record);
+    },
+    read() {
+      return [...records];
+    },
+  };
+}
+
+/**
+ * Records model calls and enforces budgets for one provider instance.
+ * Earlier records are read from the sink once, on first use; calls made by
+ * other processes after that are not counted until the next start.
+ */
+export class UsageLedger {
+  readonly sink: UsageSink;
+  readonly tag: string | undefined;
+
+  private readonly budgets: ClaudeCodeUsageBudget[];
+  private readonly logger: Logger;
+  private loading: Promise<ClaudeCodeUsageRecord[]> | null = null;
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.sink = typeof options.sink === 'object' ? options.sink : createFileUsageSink(options.sink);
+    this.budgets = options.budgets ?? [];
+    this.tag = options.tag;
+    this.logger = resolveLogger(options.logger);
+  }
+
+  /**
+   * Add a call to the ledger. Sink failures are logged, not thrown, so they never fail the call.
+   */
+  async record(entry: Omit<ClaudeCodeUsageRecord, 'timestamp' | 'costUsd'>): Promise<void> {
+    const record: ClaudeCodeUsageRecord = {
+      timestamp: new Date().toISOString(),
+      ...entry,
+      tag: entry.tag ?? this.tag,
+    };
+    const costUsd = estimateCost(record.model, record);
+    if (costUsd !== undefined) {
+      record.costUsd = costUsd;
+    }
+
+    const records = await this.load();
+    records.push(record);
+
+    try {
+      await this.sink.append(record);
+    } catch (error) {
+      this.logger.warn(`Failed to write usage to ${this.sink.description}`, { error });
+    }
+  }
+
+  /**
+   * Throw UsageBudgetExceededError if a budget that applies to the tag is used up
+   */
+  async checkBudget(tag: string | undefined = this.tag): Promise<void> {
+    if (this.budgets.length === 0) return;
+
+    const records = await this.load();
+    const today = new Date().toISOString().slice(0, 10);
+
+    for (const budget of this.budgets) {
+      if (budget.tag !== undefined && budget.tag !== tag) continue;
+
+      const period = budget.period ?? 'day';
+      const usedTokens = records
+        .filter(record => budget.tag === undefined || record.tag === budget.tag)
+        .filter(record => period === 'all' || record.timestamp.startsWith(today))
+        .reduce((sum, record) => sum + totalTokens(record), 0);
+
+      if (usedTokens >= budget.maxTokens) {
+        throw new UsageBudgetExceededError({
+          message:
+            `Usage budget exceeded: ${usedTokens} of ${budget.maxTokens} tokens used` +
+            `${budget.tag !== undefined ? ` by tag '${budget.tag}'` : ''}${period === 'day' ? ' today (UTC)' : ''}`,
+          tag: budget.tag,
+          period,
+          maxTokens: budget.maxTokens,
+          usedTokens,
+        });
+      }
+    }
+  }
+
+  /**
+   * Token, duration and cost totals, optionally broken down by model, tag, day or finish reason
+   */
+  async getSummary(options: ClaudeCodeUsageSummaryOptions = {}): Promise<ClaudeCodeUsageSummary> {
+    const since = options.since === undefined ? undefined : new Date(options.since).getTime();
+    const until = options.until === undefined ? undefined : new Date(options.until).getTime();
+
+    const summary: ClaudeCodeUsageSummary = emptyTotals();
+    const groups = new Map<string, ClaudeCodeUsageTotals>();
+
+    for (const record of await this.load()) {
+      const time = Date.parse(record.timestamp);
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time >= until) continue;
+
+      addRecord(summary, record);
+      if (options.groupBy) {
+        const key = groupKey(record, options.groupBy);
+        const totals = groups.get(key) ?? emptyTotals();
+        addRecord(totals, record);
+        groups.set(key, totals);
+      }
+    }
+
+    if (options.groupBy) {
+      summary.groups = [...groups]
+        .map(([key, totals]) => ({ key, ...totals }))
+        .sort((a, b) => b.totalTokens - a.totalTokens);
+    }
+    return summary;
+  }
+
+  private load(): Promise<ClaudeCodeUsageRecord[]> {
+    this.loading ??= (async () => {
+      if (!this.sink.read) return [];
+      try {
+        return [...await this.sink.read()];
+      } catch (error) {
+        this.logger.warn(`Failed to read usage from ${this.sink.description}`, { error });
+        return [];
+      }
+    })();
+    return this.loading;
+  }
+}
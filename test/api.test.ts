@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { APICallError, createClaudeCode, createMemoryCredentialStore, TokenRefreshError } from '../src/index.js';
+import { createCredentials, createFakeFetch, messageResponse, userPrompt, type FakeRequest } from './helpers.js';
+
+const isTokenRequest = (request: FakeRequest) => request.url.endsWith('/oauth/token');
+const tokenOf = (request: FakeRequest) => request.headers.get('authorization')?.replace('Bearer ', '');
+
+const anthropicError = (status: number, type: string, message: string, headers?: Record<string, string>) =>
+  Response.json({ type: 'error', error: { type, message } }, { status, headers });
+
+describe('401 handling', () => {
+  it('refreshes the token once and retries with the new one', async () => {
+    const store = createMemoryCredentialStore(createCredentials('revoked'));
+    const { fetch, requests } = createFakeFetch(request => {
+      if (isTokenRequest(request)) {
+        return Response.json({ access_token: 'fresh', refresh_token: 'refresh-fresh', expires_in: 3600 });
+      }
+      return tokenOf(request) === 'fresh' ? messageResponse() : anthropicError(401, 'authentication_error', 'Invalid token');
+    });
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, credentials: store });
+
+    const result = await claudeCode('sonnet').doGenerate(userPrompt('Hi'));
+
+    assert.equal(result.text, 'Hi');
+    assert.deepEqual(requests.map(request => (isTokenRequest(request) ? 'refresh' : tokenOf(request))), ['revoked', 'refresh', 'fresh']);
+    assert.equal((await store.read()).claudeAiOauth.accessToken, 'fresh');
+  });
+
+  it('throws the second 401 instead of retrying again', async () => {
+    const { fetch, requests } = createFakeFetch(request => isTokenRequest(request)
+      ? Response.json({ access_token: 'fresh', refresh_token: 'refresh-fresh', expires_in: 3600 })
+      : anthropicError(401, 'authentication_error', 'Invalid token'));
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, credentials: createMemoryCredentialStore(createCredentials('revoked')) });
+
+    await assert.rejects(claudeCode('sonnet').doGenerate(userPrompt('Hi')), error => {
+      assert.ok(APICallError.isInstance(error));
+      assert.equal(error.statusCode, 401);
+      return true;
+    });
+    assert.equal(requests.length, 3);
+  });
+
+  it('throws TokenRefreshError when the refresh token is rejected', async () => {
+    const { fetch } = createFakeFetch(request => isTokenRequest(request)
+      ? Response.json({ error: 'invalid_grant' }, { status: 400 })
+      : anthropicError(401, 'authentication_error', 'Invalid token'));
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, credentials: createMemoryCredentialStore(createCredentials('revoked')) });
+
+    await assert.rejects(claudeCode('sonnet').doGenerate(userPrompt('Hi')), error => TokenRefreshError.isInstance(error));
+  });
+});
+
+describe('API errors', () => {
+  const callWith = async (response: () => Response) => {
+    const { fetch } = createFakeFetch(response);
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, credentials: createMemoryCredentialStore(createCredentials('token')) });
+    try {
+      await claudeCode('sonnet').doGenerate(userPrompt('Hi'));
+    } catch (error) {
+      assert.ok(APICallError.isInstance(error));
+      return error;
+    }
+    assert.fail('Expected an APICallError');
+  };
+
+  it('carries the parsed Anthropic error and retries overloads', async () => {
+    const error = await callWith(() => anthropicError(529, 'overloaded_error', 'Overloaded'));
+
+    assert.equal(error.statusCode, 529);
+    assert.deepEqual(error.data, { type: 'overloaded_error', message: 'Overloaded' });
+    assert.equal(error.message, 'Anthropic API error (529 overloaded_error): Overloaded');
+    assert.equal(error.isRetryable, true);
+  });
+
+  it("doesn't retry bad requests", async () => {
+    const error = await callWith(() => anthropicError(400, 'invalid_request_error', 'max_tokens: too large'));
+
+    assert.equal(error.data && (error.data as { type: string }).type, 'invalid_request_error');
+    assert.equal(error.isRetryable, false);
+  });
+
+  it('follows the x-should-retry header', async () => {
+    const error = await callWith(() => anthropicError(500, 'api_error', 'Internal', { 'x-should-retry': 'false' }));
+
+    assert.equal(error.isRetryable, false);
+  });
+
+  it('keeps a body that is not an Anthropic error', async () => {
+    const error = await callWith(() => new Response('Bad gateway', { status: 502 }));
+
+    assert.equal(error.data, undefined);
+    assert.equal(error.responseBody, 'Bad gateway');
+    assert.equal(error.message, 'Anthropic API error: 502 Bad gateway');
+    assert.equal(error.isRetryable, true);
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InvalidArgumentError } from '@ai-sdk/provider';
+
+import { createClaudeCode, type ClaudeCodeBatchRequest } from '../src/index.js';
+import { createFakeFetch, createStore, type FakeRequest } from './helpers.js';
+
+const createProvider = (fetch: typeof globalThis.fetch) =>
+  createClaudeCode({ logger: 'silent', fetch, credentials: createStore('token') });
+
+const batch = {
+  id: 'msgbatch_1',
+  processing_status: 'ended',
+  request_counts: { processing: 0, succeeded: 2, errored: 0, canceled: 0, expired: 0 },
+  created_at: '2026-01-01T00:00:00Z',
+  expires_at: '2026-01-02T00:00:00Z',
+  ended_at: '2026-01-01T01:00:00Z',
+  cancel_initiated_at: null,
+  archived_at: null,
+  results_url: null,
+};
+
+const objectRequest = (customId: string, settings?: ClaudeCodeBatchRequest['settings']): ClaudeCodeBatchRequest => ({
+  customId,
+  modelId: 'sonnet',
+  settings,
+  prompt: 'A city',
+  maxTokens: 1024,
+  mode: { type: 'object-json', schema: { type: 'object', properties: { name: { type: 'string' } } } },
+});
+
+function message(content: unknown[]) {
+  return {
+    id: 'msg_batch',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-20250514',
+    content,
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 5 },
+  };
+}
+
+/**
+ * Answers batch creation, and the batch's results with one succeeded line per custom ID sent
+ */
+function batchApi(content: (customId: string) => unknown[]) {
+  let customIds: string[] = [];
+  return createFakeFetch((request: FakeRequest) => {
+    if (request.url.endsWith('/messages/batches')) {
+      customIds = request.body.requests.map((batchRequest: { custom_id: string }) => batchRequest.custom_id);
+    }
+    if (!request.url.endsWith('/results')) return Response.json(batch);
+
+    const lines = customIds.map(customId =>
+      JSON.stringify({ custom_id: customId, result: { type: 'succeeded', message: message(content(customId)) } }));
+    return new Response(lines.join('\n') + '\n');
+  });
+}
+
+describe('batches', () => {
+  it('reads object-json results in a provider other than the one that created the batch', async () => {
+    const { fetch, requests } = batchApi(customId => customId.includes('tool')
+      ? [{ type: 'tool_use', id: 'toolu_1', name: 'json', input: { name: 'Paris' } }]
+      : [{ type: 'text', text: '"name": "Rome"}' }]);
+
+    await createProvider(fetch).batches.create([
+      objectRequest('tool-city'),
+      objectRequest('prefill-city', { objectJsonStrategy: 'prefill' }),
+    ]);
+    const results = [];
+    for await (const result of createProvider(fetch).batches.results('msgbatch_1')) {
+      results.push(result);
+    }
+
+    assert.deepEqual(requests[0].body.requests.map((request: { custom_id: string }) => request.custom_id), [
+      'tool-city__json-tool',
+      'prefill-city__json-object',
+    ]);
+    assert.deepEqual(results.map(({ customId, result }) => [customId, result.type === 'succeeded' && result.output.text]), [
+      ['tool-city', '{"name":"Paris"}'],
+      ['prefill-city', '{"name": "Rome"}'],
+    ]);
+  });
+
+  it('leaves JSON unrepaired when repairJson is off', async () => {
+    const { fetch } = batchApi(() => [{ type: 'text', text: '"name": "Rome",' }]);
+    const claudeCode = createProvider(fetch);
+
+    await claudeCode.batches.create([objectRequest('city', { objectJsonStrategy: 'prefill', repairJson: false })]);
+    const results = [];
+    for await (const result of claudeCode.batches.results('msgbatch_1')) {
+      results.push(result);
+    }
+
+    assert.equal(results[0].customId, 'city');
+    assert.equal(results[0].result.type === 'succeeded' && results[0].result.output.text, '{"name": "Rome",');
+  });
+
+  it('passes custom IDs of other requests through unchanged', async () => {
+    const { fetch, requests } = batchApi(() => [{ type: 'text', text: 'Hi' }]);
+    const claudeCode = createProvider(fetch);
+
+    await claudeCode.batches.create([{ customId: 'greeting', modelId: 'sonnet', prompt: 'Hi', maxTokens: 1024 }]);
+    const results = [];
+    for await (const result of claudeCode.batches.results('msgbatch_1')) {
+      results.push(result);
+    }
+
+    assert.equal(requests[0].body.requests[0].custom_id, 'greeting');
+    assert.equal(results[0].customId, 'greeting');
+    assert.equal(results[0].result.type === 'succeeded' && results[0].result.output.text, 'Hi');
+  });
+
+  it('rejects custom IDs that are too long for the suffix or could be mistaken for it', async () => {
+    const { fetch, requests } = batchApi(() => []);
+    const claudeCode = createProvider(fetch);
+
+    for (const request of [
+      objectRequest('x'.repeat(60)),
+      { customId: 'plain__json-tool', modelId: 'sonnet', prompt: 'Hi', maxTokens: 1024 },
+    ]) {
+      await assert.rejects(claudeCode.batches.create([request]), error => {
+        assert.ok(InvalidArgumentError.isInstance(error));
+        assert.equal(error.argument, 'customId');
+        return true;
+      });
+    }
+    assert.equal(requests.length, 0);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createClaudeCode, type ResponseCacheOptions } from '../src/index.js';
+import { createFakeFetch, createStore, messageResponse, readRecording, readStream, userPrompt } from './helpers.js';
+
+const textOf = (parts: Awaited<ReturnType<typeof readStream>>) =>
+  parts.flatMap(part => (part.type === 'text-delta' ? [part.textDelta] : [])).join('');
+
+/**
+ * A provider with a response cache, whose API answers streams with the recorded
+ * text stream and other calls with the same text
+ */
+async function createProvider(cache: ResponseCacheOptions = {}) {
+  const { events = [] } = (await readRecording('msg_stream_text')).response;
+  const { fetch, requests } = createFakeFetch(request => request.body.stream
+    ? new Response(events.join(''), { headers: { 'content-type': 'text/event-stream' } })
+    : messageResponse([{ type: 'text', text: 'Hello! How can I help you today?' }]));
+
+  const claudeCode = createClaudeCode({ logger: 'silent', fetch, credentials: createStore('token'), cache });
+  return { claudeCode, requests };
+}
+
+describe('response cache', () => {
+  it('answers an identical call from the cache', async () => {
+    const { claudeCode, requests } = await createProvider();
+
+    const first = await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+    const second = await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+
+    assert.equal(requests.length, 1);
+    assert.equal(second.text, first.text);
+    assert.deepEqual(second.usage, first.usage);
+    assert.equal(first.providerMetadata?.anthropic.responseCacheHit, false);
+    assert.equal(second.providerMetadata?.anthropic.responseCacheHit, true);
+  });
+
+  it('misses when the request body differs or the call skips the cache', async () => {
+    const { claudeCode, requests } = await createProvider();
+
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hi'));
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hello', { temperature: 0.5 }));
+    await claudeCode('opus').doGenerate(userPrompt('Say hello'));
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hello', { providerMetadata: { anthropic: { skipCache: true } } }));
+
+    assert.equal(requests.length, 5);
+  });
+
+  it('misses once an entry has expired', async () => {
+    const { claudeCode, requests } = await createProvider({ ttlMs: 0 });
+
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+
+    assert.equal(requests.length, 2);
+  });
+
+  it('replays a cached generate call as a stream', async () => {
+    const { claudeCode, requests } = await createProvider();
+
+    const generated = await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+    const parts = await readStream((await claudeCode('sonnet').doStream(userPrompt('Say hello'))).stream);
+
+    assert.equal(requests.length, 1);
+    assert.deepEqual(parts[0], { type: 'response-metadata', id: 'msg_fake', modelId: 'claude-sonnet-4-5-20250929' });
+    assert.equal(textOf(parts), generated.text);
+
+    const finish = parts.at(-1);
+    assert.equal(finish?.type, 'finish');
+    assert.equal(finish.finishReason, 'stop');
+    assert.deepEqual(finish.usage, generated.usage);
+    assert.equal(finish.providerMetadata?.anthropic.responseCacheHit, true);
+  });
+
+  it('answers a generate call from a cached stream', async () => {
+    const { claudeCode, requests } = await createProvider();
+
+    const parts = await readStream((await claudeCode('sonnet').doStream(userPrompt('Say hello'))).stream);
+    const generated = await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+
+    assert.equal(requests.length, 1);
+    assert.equal(generated.text, textOf(parts));
+    assert.equal(generated.finishReason, 'stop');
+    assert.deepEqual(generated.usage, { promptTokens: 12, completionTokens: 11 });
+    assert.equal(generated.response?.id, 'msg_stream_text');
+    assert.equal(generated.providerMetadata?.anthropic.responseCacheHit, true);
+  });
+
+  it('does not cache a stream that is cancelled before it finishes', async () => {
+    const { claudeCode, requests } = await createProvider();
+
+    const { stream } = await claudeCode('sonnet').doStream(userPrompt('Say hello'));
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+
+    assert.equal(requests.length, 2);
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { LanguageModelV1CallWarning, LanguageModelV1Prompt } from '@ai-sdk/provider';
+
+import { convertPrompt, extractSystemMessage } from '../src/convert-prompt.js';
+
+const user = (text: string): LanguageModelV1Prompt[number] => ({ role: 'user', content: [{ type: 'text', text }] });
+const assistant = (...texts: string[]): LanguageModelV1Prompt[number] => ({
+  role: 'assistant',
+  content: texts.map(text => ({ type: 'text', text })),
+});
+
+describe('convertPrompt', () => {
+  it('sends single text blocks as strings and leaves out system messages', () => {
+    assert.deepEqual(convertPrompt([{ role: 'system', content: 'Be brief' }, user('Hi'), assistant('Hello')]), [
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+    ]);
+  });
+
+  it('merges consecutive messages of the same role', () => {
+    assert.deepEqual(convertPrompt([user('a'), user('b'), assistant('c'), assistant('d')]), [
+      { role: 'user', content: [{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] },
+      { role: 'assistant', content: [{ type: 'text', text: 'c' }, { type: 'text', text: 'd' }] },
+    ]);
+  });
+
+  it('converts tool calls and results, merging results into one user turn', () => {
+    const messages = convertPrompt([
+      user('Weather?'),
+      {
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'call_1', toolName: 'weather', args: { city: 'Paris' } }],
+      },
+      {
+        role: 'tool',
+        content: [{ type: 'tool-result', toolCallId: 'call_1', toolName: 'weather', result: { temp: 20 } }],
+      },
+      {
+        role: 'tool',
+        content: [{ type: 'tool-result', toolCallId: 'call_2', toolName: 'weather', result: 'failed', isError: true }],
+      },
+    ]);
+
+    assert.deepEqual(messages[1], {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } }],
+    });
+    assert.deepEqual(messages[2], {
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: '{"temp":20}' },
+        { type: 'tool_result', tool_use_id: 'call_2', content: 'failed', is_error: true },
+      ],
+    });
+  });
+
+  it('marks cache breakpoints from provider metadata', () => {
+    const messages = convertPrompt([{
+      role: 'user',
+      content: [{ type: 'text', text: 'Long document' }],
+      providerMetadata: { anthropic: { cacheControl: { type: 'ephemeral' } } },
+    }]);
+
+    assert.deepEqual(messages[0].content, [
+      { type: 'text', text: 'Long document', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+
+  it('trims trailing whitespace from an assistant prefill', () => {
+    assert.deepEqual(convertPrompt([user('JSON please'), assistant('{ ')]).at(-1), { role: 'assistant', content: '{' });
+  });
+
+  it('drops prefill text that is empty after trimming', () => {
+    assert.deepEqual(convertPrompt([user('Hi'), assistant('   ')]), [{ role: 'user', content: 'Hi' }]);
+    assert.deepEqual(convertPrompt([user('Hi'), assistant('Sure ', ' \n')]).at(-1), { role: 'assistant', content: 'Sure' });
+  });
+
+  it('skips unsupported files with a warning', () => {
+    const warnings: LanguageModelV1CallWarning[] = [];
+    const messages = convertPrompt([{
+      role: 'user',
+      content: [
+        { type: 'text', text: 'See attached' },
+        { type: 'file', data: 'AAAA', mimeType: 'application/zip' },
+      ],
+    }], warnings);
+
+    assert.deepEqual(messages, [{ role: 'user', content: 'See attached' }]);
+    assert.equal(warnings.length, 1);
+  });
+});
+
+describe('extractSystemMessage', () => {
+  it('collects system messages as text blocks', () => {
+    assert.deepEqual(extractSystemMessage([{ role: 'system', content: 'One' }, user('Hi'), { role: 'system', content: 'Two' }]), [
+      { type: 'text', text: 'One' },
+      { type: 'text', text: 'Two' },
+    ]);
+  });
+});
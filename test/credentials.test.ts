@@ -0,0 +1,177 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+import { APICallError } from '@ai-sdk/provider';
+
+import {
+  CredentialManager,
+  createFileCredentialStore,
+  type ClaudeCodeCredentialEvent,
+} from '../src/credentials.js';
+import { TokenRefreshError, UnsupportedCredentialStoreError } from '../src/errors.js';
+import { createCredentials, createStore } from './helpers.js';
+
+/**
+ * A token endpoint that answers after a delay, so concurrent refreshes overlap.
+ * `respond` can override the answer; without one, or when it returns undefined, new tokens are issued.
+ */
+function createTokenEndpoint(respond?: () => Response | undefined) {
+  const refreshTokens: string[] = [];
+
+  const fakeFetch = async (_url: string | URL | Request, init?: RequestInit) => {
+    const { refresh_token } = JSON.parse(String(init?.body)) as { refresh_token: string };
+    refreshTokens.push(refresh_token);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const n = refreshTokens.length;
+    return respond?.() ?? Response.json({ access_token: `new-${n}`, refresh_token: `new-refresh-${n}`, expires_in: 8 * 60 * 60 });
+  };
+
+  return { fetch: fakeFetch as typeof fetch, refreshTokens };
+}
+
+describe('CredentialManager', () => {
+  let dir: string;
+  let path: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'claude-code-oauth-'));
+    path = join(dir, '.credentials.json');
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  describe('reads', () => {
+    it('serve synchronous and async reads from one cache', async () => {
+      await writeFile(path, JSON.stringify(createCredentials('cached')));
+      const manager = new CredentialManager(createFileCredentialStore(path), { logger: 'silent' });
+
+      assert.equal(manager.readCredentialsSync().claudeAiOauth.accessToken, 'cached');
+      await writeFile(path, JSON.stringify(createCredentials('changed')));
+      assert.equal(manager.readCredentialsSync().claudeAiOauth.accessToken, 'cached');
+      assert.equal((await manager.readCredentials()).claudeAiOauth.accessToken, 'cached');
+
+      manager.invalidate();
+      assert.equal(manager.readCredentialsSync().claudeAiOauth.accessToken, 'changed');
+    });
+
+    it('throw UnsupportedCredentialStoreError for a synchronous read of an async store', async () => {
+      const store = createStore('async');
+      const manager = new CredentialManager({ ...store, read: async () => store.read() }, { logger: 'silent' });
+
+      assert.throws(() => manager.readCredentialsSync(), error => {
+        assert.ok(UnsupportedCredentialStoreError.isInstance(error));
+        assert.equal(error.location, 'memory');
+        return true;
+      });
+
+      // Once read asynchronously, the cache answers synchronous reads
+      await manager.readCredentials();
+      assert.equal(manager.readCredentialsSync().claudeAiOauth.accessToken, 'async');
+    });
+  });
+
+  describe('refresh', () => {
+    it('is shared by concurrent requests for an expired token', async () => {
+      const store = createStore('old', Date.now() - 1000);
+      const { fetch, refreshTokens } = createTokenEndpoint();
+      const events: ClaudeCodeCredentialEvent[] = [];
+      const manager = new CredentialManager(store, { fetch, logger: 'silent', onEvent: event => events.push(event) });
+
+      const tokens = await Promise.all(Array.from({ length: 5 }, () => manager.getValidAccessToken()));
+
+      assert.deepEqual(tokens, ['new-1', 'new-1', 'new-1', 'new-1', 'new-1']);
+      assert.deepEqual(refreshTokens, ['refresh-old']);
+      assert.deepEqual(events.map(event => event.type), ['expired', 'refreshed']);
+
+      const saved = await store.read();
+      assert.equal(saved.claudeAiOauth.accessToken, 'new-1');
+      assert.equal(saved.claudeAiOauth.refreshToken, 'new-refresh-1');
+      assert.equal(saved.organizationUuid, 'org-1');
+    });
+
+    it('runs again once the shared refresh has settled', async () => {
+      const { fetch, refreshTokens } = createTokenEndpoint();
+      const manager = new CredentialManager(createStore('old', Date.now() - 1000), { fetch, logger: 'silent' });
+
+      await manager.refreshToken();
+      await manager.refreshToken();
+
+      assert.deepEqual(refreshTokens, ['refresh-old', 'new-refresh-1']);
+    });
+
+    it('uses a token another process refreshed instead of refreshing again', async () => {
+      await writeFile(path, JSON.stringify(createCredentials('old', Date.now() - 1000)));
+      const { fetch, refreshTokens } = createTokenEndpoint();
+      const first = new CredentialManager(createFileCredentialStore(path), { fetch, logger: 'silent' });
+      const second = new CredentialManager(createFileCredentialStore(path), { fetch, logger: 'silent' });
+
+      const stale = await second.readCredentials();
+      assert.equal(await first.getValidAccessToken(), 'new-1');
+
+      const current = await second.refreshToken(stale);
+      assert.equal(current.claudeAiOauth.accessToken, 'new-1');
+      assert.deepEqual(refreshTokens, ['refresh-old']);
+    });
+
+    it('throws TokenRefreshError only when the refresh token is rejected with invalid_grant', async () => {
+      const { fetch } = createTokenEndpoint(() => Response.json(
+        { error: 'invalid_grant', error_description: 'Refresh token revoked' },
+        { status: 400 },
+      ));
+      const manager = new CredentialManager(createStore('old', Date.now() - 1000), { fetch, logger: 'silent' });
+
+      await assert.rejects(manager.getValidAccessToken(), error => {
+        assert.ok(TokenRefreshError.isInstance(error));
+        assert.equal(error.statusCode, 400);
+        return true;
+      });
+    });
+
+    it('throws a retryable APICallError for other failures, and refreshes on the next call', async () => {
+      const failures = [
+        new Response('upstream unavailable', { status: 503 }),
+        Response.json({ error: 'invalid_request' }, { status: 400 }),
+      ];
+      const { fetch, refreshTokens } = createTokenEndpoint(() => failures.shift());
+      const manager = new CredentialManager(createStore('old', Date.now() - 1000), { fetch, logger: 'silent' });
+
+      for (const statusCode of [503, 400]) {
+        await assert.rejects(manager.getValidAccessToken(), error => {
+          assert.ok(APICallError.isInstance(error));
+          assert.equal(error.statusCode, statusCode);
+          assert.equal(error.isRetryable, true);
+          return true;
+        });
+      }
+
+      assert.equal(await manager.getValidAccessToken(), 'new-3');
+      assert.deepEqual(refreshTokens, ['refresh-old', 'refresh-old', 'refresh-old']);
+    });
+  });
+
+  describe('file lock', () => {
+    it('is held by one process at a time after breaking a stale lock', async () => {
+      const lockPath = `${path}.lock`;
+      await writeFile(lockPath, '99999');
+      const longAgo = new Date(Date.now() - 60_000);
+      await utimes(lockPath, longAgo, longAgo);
+
+      let holders = 0;
+      let maxHolders = 0;
+      const holdLock = async () => {
+        const release = await createFileCredentialStore(path).lock();
+        maxHolders = Math.max(maxHolders, ++holders);
+        await new Promise(resolve => setTimeout(resolve, 30));
+        holders--;
+        await release();
+      };
+
+      await Promise.all([holdLock(), holdLock(), holdLock()]);
+
+      assert.equal(maxHolders, 1);
+      assert.deepEqual((await readdir(dir)).filter(file => file.includes('.lock')), []);
+    });
+  });
+});
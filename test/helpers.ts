@@ -0,0 +1,154 @@
+/**
+ * Shared fixtures for the tests
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import type { LanguageModelV1CallOptions, LanguageModelV1StreamPart } from '@ai-sdk/provider';
+
+import { createMemoryCredentialStore, type ClaudeCodeCredentials } from '../src/credentials.js';
+import type { ClaudeCodeRecording } from '../src/recording.js';
+import { SSEDecoder, type SSEEvent } from '../src/sse.js';
+
+/** Synthetic recordings replayed by the tests, written by record-fixtures.ts */
+export const RECORDINGS_DIR = fileURLToPath(new URL('./recordings', import.meta.url));
+
+/**
+ * The recording whose response is the message with the given ID
+ */
+export async function readRecording(messageId: string): Promise<ClaudeCodeRecording> {
+  for (const file of await readdir(RECORDINGS_DIR)) {
+    const recording = JSON.parse(await readFile(join(RECORDINGS_DIR, file), 'utf8')) as ClaudeCodeRecording;
+    const { body, events } = recording.response;
+    if ((body as { id?: string } | undefined)?.id === messageId || events?.[0]?.includes(`"id":"${messageId}"`)) {
+      return recording;
+    }
+  }
+  throw new Error(`No recording of ${messageId}`);
+}
+
+/**
+ * The decoded SSE events of a recorded stream
+ */
+export async function readRecordedEvents(messageId: string): Promise<SSEEvent[]> {
+  const decoder = new SSEDecoder();
+  const { events = [] } = (await readRecording(messageId)).response;
+  return [...events.flatMap(event => decoder.push(event)), ...decoder.flush()];
+}
+
+export function createCredentials(accessToken: string, expiresAt = Date.now() + 60 * 60 * 1000): ClaudeCodeCredentials {
+  return {
+    claudeAiOauth: {
+      accessToken,
+      refreshToken: `refresh-${accessToken}`,
+      expiresAt,
+      scopes: ['user:inference'],
+      subscriptionType: 'max',
+      rateLimitTier: null,
+    },
+    organizationUuid: 'org-1',
+  };
+}
+
+export function createStore(accessToken: string, expiresAt?: number) {
+  return createMemoryCredentialStore(createCredentials(accessToken, expiresAt));
+}
+
+/**
+ * Call options for a single user message. maxTokens is fixed so recorded
+ * request bodies don't depend on the model catalog.
+ */
+export function userPrompt(
+  text: string,
+  options: Partial<LanguageModelV1CallOptions> = {},
+): LanguageModelV1CallOptions {
+  return {
+    inputFormat: 'prompt',
+    mode: { type: 'regular' },
+    prompt: [{ role: 'user', content: [{ type: 'text', text }] }],
+    maxTokens: 1024,
+    ...options,
+  };
+}
+
+export const weatherTool = {
+  type: 'function' as const,
+  name: 'weather',
+  description: 'Current weather in a city',
+  parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+};
+
+/**
+ * An SSE body in the Messages API format
+ */
+export function sseBody(events: Array<Record<string, unknown> & { type: string }>): string {
+  return events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+export interface FakeRequest {
+  url: string;
+  headers: Headers;
+  body: any;
+}
+
+/**
+ * A fetch standing in for the API: keeps every request and answers with `respond`
+ */
+export function createFakeFetch(respond: (request: FakeRequest) => Response | Promise<Response> = () => messageResponse()) {
+  const requests: FakeRequest[] = [];
+  const fakeFetch = async (url: string | URL | Request, init?: RequestInit) => {
+    const request = {
+      url: String(url),
+      headers: new Headers(init?.headers),
+      body: init?.body ? JSON.parse(String(init.body)) : undefined,
+    };
+    requests.push(request);
+    return respond(request);
+  };
+  return { fetch: fakeFetch as typeof fetch, requests };
+}
+
+/**
+ * A Messages API response with the given content blocks
+ */
+export function messageResponse(
+  content: Array<Record<string, unknown>> = [{ type: 'text', text: 'Hi' }],
+  overrides: Record<string, unknown> = {},
+  init?: ResponseInit,
+): Response {
+  return Response.json({
+    id: 'msg_fake',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-5-20250929',
+    content,
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 10, output_tokens: 5 },
+    ...overrides,
+  }, init);
+}
+
+/**
+ * A response whose body arrives in chunks of the given size, to exercise split events
+ */
+export function chunkedResponse(text: string, chunkSize: number, init?: ResponseInit): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let start = 0; start < text.length; start += chunkSize) {
+        controller.enqueue(encoder.encode(text.slice(start, start + chunkSize)));
+      }
+      controller.close();
+    },
+  }), init);
+}
+
+export async function readStream(stream: ReadableStream<LanguageModelV1StreamPart>): Promise<LanguageModelV1StreamPart[]> {
+  const parts: LanguageModelV1StreamPart[] = [];
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV1StreamPart>) {
+    parts.push(part);
+  }
+  return parts;
+}
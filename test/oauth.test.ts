@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, describe, it } from 'node:test';
+
+import { createMemoryCredentialStore } from '../src/credentials.js';
+import { OAuthLoginError } from '../src/errors.js';
+import { login, logout } from '../src/oauth.js';
+import type { Logger } from '../src/logger.js';
+import { createCredentials, createStore } from './helpers.js';
+
+interface StandInRequest {
+  path: string;
+  body: any;
+}
+
+const standIns: Array<() => Promise<void>> = [];
+afterEach(async () => {
+  await Promise.all(standIns.splice(0).map(close => close()));
+});
+
+/**
+ * A local server standing in for the OAuth token and revocation endpoints
+ */
+async function startStandIn(respond: (request: StandInRequest) => { status?: number; body: unknown }) {
+  const requests: StandInRequest[] = [];
+
+  const server = createServer(async (request, response) => {
+    let text = '';
+    for await (const chunk of request) text += chunk;
+
+    const received = { path: request.url ?? '/', body: text ? JSON.parse(text) : undefined };
+    requests.push(received);
+    const { status = 200, body } = respond(received);
+    response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  const close = () => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  });
+  standIns.push(close);
+
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://localhost:${port}`, requests, close };
+}
+
+const tokens = (request: StandInRequest) => ({
+  body: {
+    access_token: `access-${request.body.code}`,
+    refresh_token: `refresh-${request.body.code}`,
+    expires_in: 3600,
+    scope: 'user:inference',
+    organization: { uuid: 'org-1' },
+  },
+});
+
+describe('login', () => {
+  it('receives the code on the loopback callback and exchanges it', async () => {
+    const standIn = await startStandIn(tokens);
+    const store = createStore('previous');
+    let callbackStatus: number | undefined;
+
+    const credentials = await login({
+      credentials: store,
+      authorizeUrl: `${standIn.url}/authorize`,
+      tokenUrl: `${standIn.url}/token`,
+      // Plays the browser: the authorization page redirects to the callback
+      onAuthorizeUrl: async url => {
+        const params = new URL(url).searchParams;
+        const callback = new URL(params.get('redirect_uri')!);
+        callback.search = new URLSearchParams({ code: 'loopback-code', state: params.get('state')! }).toString();
+        callbackStatus = (await fetch(callback)).status;
+      },
+    });
+
+    assert.equal(callbackStatus, 200);
+    assert.equal(credentials.claudeAiOauth.accessToken, 'access-loopback-code');
+    assert.equal(credentials.organizationUuid, 'org-1');
+    assert.deepEqual(await store.read(), credentials);
+
+    const [exchange] = standIn.requests;
+    assert.equal(exchange.path, '/token');
+    assert.equal(exchange.body.grant_type, 'authorization_code');
+    assert.match(exchange.body.redirect_uri, /^http:\/\/localhost:\d+\/callback$/);
+    assert.ok(exchange.body.code_verifier);
+  });
+
+  it('exchanges a pasted code', async () => {
+    const standIn = await startStandIn(tokens);
+    let state: string | null = null;
+
+    const credentials = await login({
+      mode: 'paste',
+      credentials: createStore('previous'),
+      tokenUrl: `${standIn.url}/token`,
+      onAuthorizeUrl: url => {
+        state = new URL(url).searchParams.get('state');
+      },
+      readCode: async () => `paste-code#${state}\n`,
+    });
+
+    assert.equal(credentials.claudeAiOauth.accessToken, 'access-paste-code');
+    assert.equal(standIn.requests[0].body.redirect_uri, 'https://console.anthropic.com/oauth/code/callback');
+    assert.equal(standIn.requests[0].body.state, state);
+  });
+
+  it('rejects a code whose state belongs to another login', async () => {
+    const standIn = await startStandIn(tokens);
+
+    await assert.rejects(login({
+      mode: 'paste',
+      credentials: createStore('previous'),
+      tokenUrl: `${standIn.url}/token`,
+      onAuthorizeUrl: () => {},
+      readCode: async () => 'paste-code#another-state',
+    }), error => OAuthLoginError.isInstance(error) && /state mismatch/.test(error.message));
+
+    assert.equal(standIn.requests.length, 0);
+  });
+
+  it('rejects a loopback callback with the wrong state', async () => {
+    const standIn = await startStandIn(tokens);
+    let callbackStatus: number | undefined;
+
+    await assert.rejects(login({
+      credentials: createStore('previous'),
+      tokenUrl: `${standIn.url}/token`,
+      onAuthorizeUrl: async url => {
+        const callback = new URL(new URL(url).searchParams.get('redirect_uri')!);
+        callback.search = new URLSearchParams({ code: 'loopback-code', state: 'another-state' }).toString();
+        callbackStatus = (await fetch(callback)).status;
+      },
+    }), error => OAuthLoginError.isInstance(error) && /state mismatch/.test(error.message));
+
+    assert.equal(callbackStatus, 400);
+    assert.equal(standIn.requests.length, 0);
+  });
+
+  it('fails with the status and body of a failed token exchange and saves nothing', async () => {
+    const standIn = await startStandIn(() => ({ status: 400, body: { error: 'invalid_grant' } }));
+    const store = createStore('previous');
+
+    await assert.rejects(login({
+      mode: 'paste',
+      credentials: store,
+      tokenUrl: `${standIn.url}/token`,
+      onAuthorizeUrl: () => {},
+      readCode: async () => 'expired-code',
+    }), error => {
+      assert.ok(OAuthLoginError.isInstance(error));
+      assert.equal(error.statusCode, 400);
+      assert.equal(error.responseBody, '{"error":"invalid_grant"}');
+      return true;
+    });
+
+    assert.equal((await store.read()).claudeAiOauth.accessToken, 'previous');
+  });
+});
+
+describe('logout', () => {
+  // A memory store that can be cleared, like the file store
+  function createClearableStore() {
+    const store = { ...createMemoryCredentialStore(createCredentials('token')), cleared: false };
+    return Object.assign(store, { clear: () => void (store.cleared = true) });
+  }
+
+  it('revokes the refresh token and clears the credentials', async () => {
+    const standIn = await startStandIn(() => ({ body: {} }));
+    const store = createClearableStore();
+
+    assert.deepEqual(await logout({ credentials: store, revokeUrl: `${standIn.url}/revoke` }), { revoked: true, cleared: true });
+    assert.equal(standIn.requests[0].body.token, 'refresh-token');
+    assert.equal(store.cleared, true);
+  });
+
+  it('still clears the credentials when revocation fails', async () => {
+    const standIn = await startStandIn(() => ({ status: 500, body: { error: 'server_error' } }));
+    const store = createClearableStore();
+
+    assert.deepEqual(await logout({ credentials: store, revokeUrl: `${standIn.url}/revoke` }), { revoked: false, cleared: true });
+    assert.equal(store.cleared, true);
+  });
+
+  it('still clears the credentials and logs a warning when the revocation endpoint is unreachable', async () => {
+    const standIn = await startStandIn(() => ({ body: {} }));
+    await standIn.close();
+    const store = createClearableStore();
+    const warnings: string[] = [];
+    const logger: Logger = { debug() {}, info() {}, warn: message => void warnings.push(message), error() {} };
+
+    assert.deepEqual(
+      await logout({ credentials: store, revokeUrl: `${standIn.url}/revoke`, logger }),
+      { revoked: false, cleared: true },
+    );
+    assert.equal(store.cleared, true);
+    assert.deepEqual(warnings, ['Failed to revoke token']);
+  });
+});
@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { LanguageModelV1CallOptions } from '@ai-sdk/provider';
+
+import { createClaudeCode, type ClaudeCodeModelSettings } from '../src/index.js';
+import { createFakeFetch, createStore, messageResponse, readStream, sseBody, userPrompt } from './helpers.js';
+
+type JsonSchema = Extract<LanguageModelV1CallOptions['mode'], { type: 'object-json' }>['schema'];
+
+const citySchema: JsonSchema = { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] };
+
+const createModel = (fetch: typeof globalThis.fetch, settings?: ClaudeCodeModelSettings) =>
+  createClaudeCode({ logger: 'silent', fetch, credentials: createStore('token') })('sonnet', settings);
+
+const objectJson = (schema: JsonSchema = citySchema): Partial<LanguageModelV1CallOptions> =>
+  ({ mode: { type: 'object-json', schema } });
+
+describe('object-json tool strategy', () => {
+  it('forces the synthetic json tool and returns its input as text', async () => {
+    const { fetch, requests } = createFakeFetch(() => messageResponse(
+      [{ type: 'tool_use', id: 'toolu_1', name: 'json', input: { name: 'Paris' } }],
+      { stop_reason: 'tool_use' },
+    ));
+
+    const result = await createModel(fetch).doGenerate(userPrompt('A city', objectJson()));
+
+    assert.deepEqual(requests[0].body.tools, [{
+      name: 'json',
+      description: 'Respond with a JSON object that matches the input schema',
+      input_schema: citySchema,
+    }]);
+    assert.deepEqual(requests[0].body.tool_choice, { type: 'tool', name: 'json' });
+    assert.equal(result.text, '{"name":"Paris"}');
+    assert.equal(result.toolCalls, undefined);
+    assert.equal(result.finishReason, 'stop');
+  });
+
+  it('streams the tool input as text deltas', async () => {
+    const { fetch } = createFakeFetch(() => new Response(sseBody([
+      { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5-20250929', usage: { input_tokens: 10, output_tokens: 0 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'json', input: {} } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"name":' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 5 } },
+      { type: 'message_stop' },
+    ])));
+
+    const { stream } = await createModel(fetch).doStream(userPrompt('A city', objectJson()));
+    const parts = await readStream(stream);
+
+    const text = parts.map(part => part.type === 'text-delta' ? part.textDelta : '').join('');
+    assert.equal(text, '{"name":"Paris"}');
+    assert.ok(!parts.some(part => part.type === 'tool-call'));
+    const finish = parts.at(-1);
+    assert.equal(finish?.type === 'finish' && finish.finishReason, 'stop');
+  });
+
+  it('falls back to a prefilled reply for schemas that are not objects', async () => {
+    const { fetch, requests } = createFakeFetch(() => messageResponse([{ type: 'text', text: '"Paris", "Rome"]' }]));
+
+    const result = await createModel(fetch)
+      .doGenerate(userPrompt('Two cities', objectJson({ type: 'array', items: { type: 'string' } })));
+
+    assert.equal(requests[0].body.tools, undefined);
+    assert.deepEqual(requests[0].body.messages.at(-1), { role: 'assistant', content: '[' });
+    assert.equal(result.text, '["Paris", "Rome"]');
+  });
+});
+
+describe('object-json prefill strategy', () => {
+  it('sends the schema as instructions and prefills the reply', async () => {
+    const { fetch, requests } = createFakeFetch(() => messageResponse([{ type: 'text', text: '"name": "Rome"}' }]));
+
+    const result = await createModel(fetch, { objectJsonStrategy: 'prefill' }).doGenerate(userPrompt('A city', objectJson()));
+
+    assert.equal(requests[0].body.tools, undefined);
+    assert.match(JSON.stringify(requests[0].body.system), /Respond with only a JSON value that matches this JSON schema/);
+    assert.deepEqual(requests[0].body.messages.at(-1), { role: 'assistant', content: '{' });
+    assert.equal(result.text, '{"name": "Rome"}');
+  });
+
+  it('sends neither a tool nor a prefill with thinking enabled', async () => {
+    const { fetch, requests } = createFakeFetch(() => messageResponse([{ type: 'text', text: '{"name": "Rome"}' }]));
+
+    const result = await createModel(fetch, { thinking: { type: 'enabled', budgetTokens: 2000 } })
+      .doGenerate(userPrompt('A city', objectJson()));
+
+    assert.equal(requests[0].body.tools, undefined);
+    assert.equal(requests[0].body.messages.at(-1).role, 'user');
+    assert.equal(result.text, '{"name": "Rome"}');
+  });
+});
+
+describe('object-json repair', () => {
+  it('recovers JSON from a fenced block with a trailing comma', async () => {
+    const { fetch } = createFakeFetch(() => messageResponse([
+      { type: 'text', text: 'Here it is:\n```json\n{"name": "Rome",}\n```' },
+    ]));
+
+    const result = await createModel(fetch, { thinking: { type: 'enabled', budgetTokens: 2000 } })
+      .doGenerate(userPrompt('A city', objectJson()));
+
+    assert.equal(result.text, '{"name": "Rome"}');
+  });
+
+  it('leaves the text as it is with repairJson off', async () => {
+    const { fetch } = createFakeFetch(() => messageResponse([{ type: 'text', text: '"name": "Rome",}' }]));
+
+    const result = await createModel(fetch, { objectJsonStrategy: 'prefill', repairJson: false })
+      .doGenerate(userPrompt('A city', objectJson()));
+
+    assert.equal(result.text, '{"name": "Rome",}');
+  });
+
+  it('asks again with the parse error when maxJsonRetries is set, adding up usage', async () => {
+    const replies = ['"name": Rome}', '"name": "Rome"}'];
+    const { fetch, requests } = createFakeFetch(() => messageResponse([{ type: 'text', text: replies.shift()! }]));
+
+    const result = await createModel(fetch, { objectJsonStrategy: 'prefill', repairJson: false, maxJsonRetries: 2 })
+      .doGenerate(userPrompt('A city', objectJson()));
+
+    assert.equal(requests.length, 2);
+    const messages = requests[1].body.messages;
+    assert.deepEqual(messages.at(-3), { role: 'assistant', content: '{"name": Rome}' });
+    assert.match(messages.at(-2).content, /^That was not valid JSON \(.+\)\. Respond again with only the corrected JSON\.$/);
+    assert.deepEqual(messages.at(-1), { role: 'assistant', content: '{' });
+    assert.equal(result.text, '{"name": "Rome"}');
+    assert.deepEqual(result.usage, { promptTokens: 20, completionTokens: 10 });
+  });
+});
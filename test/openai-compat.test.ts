@@ -0,0 +1,185 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { AnthropicMessageResponse } from '../src/provider.js';
+import {
+  ChatStreamTranslator,
+  convertChatRequest,
+  convertChatResponse,
+  type OpenAIChatMessage,
+} from '../src/openai-compat.js';
+import { readRecordedEvents, readRecording } from './helpers.js';
+
+describe('convertChatRequest', () => {
+  it('moves system messages to the system prompt and groups parallel tool results', () => {
+    const body = convertChatRequest({
+      model: 'sonnet',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Weather in Paris and Rome?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'weather', arguments: '{"city":"Rome"}' } },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+        { role: 'tool', tool_call_id: 'call_2', content: 'Rainy' },
+      ],
+      stop: 'END',
+      stream: true,
+    });
+
+    assert.deepEqual(body, {
+      model: 'claude-sonnet-4-5-20250929',
+      system: [{ type: 'text', text: 'Be brief.' }],
+      messages: [
+        { role: 'user', content: [{ type: 'text', text: 'Weather in Paris and Rome?' }] },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'call_1', name: 'weather', input: { city: 'Paris' } },
+            { type: 'tool_use', id: 'call_2', name: 'weather', input: { city: 'Rome' } },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' },
+            { type: 'tool_result', tool_use_id: 'call_2', content: 'Rainy' },
+          ],
+        },
+      ],
+      max_tokens: 64_000,
+      stop_sequences: ['END'],
+      stream: true,
+    });
+  });
+
+  it('maps tools, tool_choice and parallel_tool_calls', () => {
+    const body = convertChatRequest({
+      model: 'claude-sonnet-4-5-20250929',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_completion_tokens: 100,
+      tools: [{ type: 'function', function: { name: 'weather', parameters: { type: 'object' } } }],
+      tool_choice: 'required',
+      parallel_tool_calls: false,
+    });
+
+    assert.equal(body.max_tokens, 100);
+    assert.deepEqual(body.tools, [{ name: 'weather', description: undefined, input_schema: { type: 'object' } }]);
+    assert.deepEqual(body.tool_choice, { type: 'any', disable_parallel_tool_use: true });
+  });
+
+  it("defaults max_tokens to the model's output limit, or 4096 for models missing from the catalog", () => {
+    const messages: OpenAIChatMessage[] = [{ role: 'user', content: 'Hi' }];
+
+    assert.equal(convertChatRequest({ model: 'claude-3-5-haiku-20241022', messages }).max_tokens, 8192);
+    assert.equal(convertChatRequest({ model: 'claude-future-model', messages }).max_tokens, 4096);
+  });
+
+  it('leaves out assistant messages without text or tool calls', () => {
+    const body = convertChatRequest({
+      model: 'sonnet',
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: '' },
+        { role: 'assistant', content: null, tool_calls: [] },
+        { role: 'user', content: 'Are you there?' },
+      ],
+    });
+
+    assert.deepEqual(body.messages, [
+      { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+      { role: 'user', content: [{ type: 'text', text: 'Are you there?' }] },
+    ]);
+  });
+
+  it('converts data URL images to base64 blocks', () => {
+    const body = convertChatRequest({
+      model: 'sonnet',
+      messages: [{ role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBOR' } }] }],
+    });
+
+    assert.deepEqual(body.messages, [{
+      role: 'user',
+      content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBOR' } }],
+    }]);
+  });
+});
+
+describe('convertChatResponse', () => {
+  it('converts a recorded response', async () => {
+    const { body } = (await readRecording('msg_generate_text')).response;
+    const response = convertChatResponse(body as AnthropicMessageResponse);
+
+    assert.equal(response.id, 'msg_generate_text');
+    assert.deepEqual(response.choices, [{
+      index: 0,
+      message: { role: 'assistant', content: 'Hello! How can I help you today?' },
+      finish_reason: 'stop',
+    }]);
+    assert.deepEqual(response.usage, {
+      prompt_tokens: 12,
+      completion_tokens: 11,
+      total_tokens: 23,
+      prompt_tokens_details: { cached_tokens: 0 },
+    });
+  });
+});
+
+describe('ChatStreamTranslator', () => {
+  const translate = async (messageId: string, includeUsage = false) => {
+    const translator = new ChatStreamTranslator({ model: 'sonnet', stream_options: { include_usage: includeUsage } });
+    return (await readRecordedEvents(messageId)).flatMap(event => translator.translate(event));
+  };
+  const deltas = (chunks: Awaited<ReturnType<typeof translate>>) =>
+    chunks.flatMap(chunk => (chunk === '[DONE]' ? [] : (chunk.choices as Array<{ delta: Record<string, unknown> }>).map(choice => choice.delta)));
+
+  it('translates a recorded text stream, ending with usage and [DONE]', async () => {
+    const chunks = await translate('msg_stream_text', true);
+
+    assert.equal(deltas(chunks).map(delta => delta.content ?? '').join(''), 'Hello! How can I help you today?');
+    assert.equal(chunks.at(-1), '[DONE]');
+    assert.deepEqual((chunks.at(-2) as Record<string, unknown>).usage, {
+      prompt_tokens: 12,
+      completion_tokens: 11,
+      total_tokens: 23,
+      prompt_tokens_details: { cached_tokens: 0 },
+    });
+    const finish = chunks.at(-3) as { id: string; choices: Array<{ finish_reason: string }> };
+    assert.equal(finish.id, 'msg_stream_text');
+    assert.equal(finish.choices[0].finish_reason, 'stop');
+  });
+
+  it('drops thinking from a recorded stream', async () => {
+    const chunks = await translate('msg_stream_thinking');
+
+    assert.equal(deltas(chunks).map(delta => delta.content ?? '').join(''), '17 * 23 = 391');
+  });
+
+  it('translates recorded tool input deltas into tool_calls chunks', async () => {
+    const chunks = await translate('msg_stream_tool');
+    const toolCalls = deltas(chunks).flatMap(delta =>
+      (delta.tool_calls ?? []) as Array<{ index: number; id?: string; function: { name?: string; arguments: string } }>);
+
+    assert.ok(toolCalls.every(call => call.index === 0));
+    assert.equal(toolCalls[0].id, 'toolu_01');
+    assert.equal(toolCalls[0].function.name, 'weather');
+    assert.equal(toolCalls.map(call => call.function.arguments).join(''), '{"city": "Paris"}');
+    const finish = chunks.at(-2) as { choices: Array<{ finish_reason: string }> };
+    assert.equal(finish.choices[0].finish_reason, 'tool_calls');
+  });
+
+  it('turns an error event into an error chunk', () => {
+    const translator = new ChatStreamTranslator({ model: 'sonnet' });
+    const chunks = translator.translate({
+      event: 'error',
+      data: JSON.stringify({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }),
+    });
+
+    assert.deepEqual(chunks, [{ error: { message: 'Overloaded', type: 'overloaded_error' } }, '[DONE]']);
+  });
+});
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { APICallError, createClaudeCode } from '../src/index.js';
+import { createStore, readRecording, readStream, userPrompt } from './helpers.js';
+
+type Reply = 'ok' | 'rate-limited' | 'rate-limited-stream';
+
+const rateLimitError = { type: 'error', error: { type: 'rate_limit_error', message: 'Rate limited' } };
+
+/**
+ * A fetch that answers each account (by access token) as configured, serving the
+ * recorded text stream on success
+ */
+async function createFetch(replies: Record<string, Reply>) {
+  const { events = [] } = (await readRecording('msg_stream_text')).response;
+  const calls: string[] = [];
+
+  const fakeFetch = async (_url: string | URL | Request, init?: RequestInit) => {
+    const token = new Headers(init?.headers).get('authorization')!.replace('Bearer ', '');
+    calls.push(token);
+
+    switch (replies[token]) {
+      case 'rate-limited':
+        return Response.json(rateLimitError, { status: 429, headers: { 'retry-after': '30' } });
+      case 'rate-limited-stream':
+        return new Response(`event: error\ndata: ${JSON.stringify(rateLimitError)}\n\n`, {
+          headers: { 'content-type': 'text/event-stream' },
+        });
+      default:
+        return new Response(events.join(''), { headers: { 'content-type': 'text/event-stream' } });
+    }
+  };
+
+  return { fetch: fakeFetch as typeof fetch, calls };
+}
+
+const streamText = async (claudeCode: ReturnType<typeof createClaudeCode>) => {
+  const parts = await readStream((await claudeCode('sonnet').doStream(userPrompt('Say hello'))).stream);
+  return parts.flatMap(part => (part.type === 'text-delta' ? [part.textDelta] : [])).join('');
+};
+
+describe('account pool', () => {
+  it('fails over to the next account on 429 and cools the limited one down', async () => {
+    const { fetch, calls } = await createFetch({ a: 'rate-limited', b: 'ok' });
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, accounts: [createStore('a'), createStore('b')] });
+
+    const before = Date.now();
+    assert.equal(await streamText(claudeCode), 'Hello! How can I help you today?');
+    assert.deepEqual(calls, ['a', 'b']);
+
+    const [a, b] = claudeCode.pool!.accounts;
+    assert.ok(a.cooldownUntil >= before + 30_000);
+    assert.equal(b.cooldownUntil, 0);
+
+    // The limited account is skipped until its cooldown ends
+    await streamText(claudeCode);
+    assert.deepEqual(calls, ['a', 'b', 'b']);
+  });
+
+  it('fails over when a stream starts with a rate_limit_error event', async () => {
+    const { fetch, calls } = await createFetch({ a: 'rate-limited-stream', b: 'ok' });
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, accounts: [createStore('a'), createStore('b')] });
+
+    assert.equal(await streamText(claudeCode), 'Hello! How can I help you today?');
+    assert.deepEqual(calls, ['a', 'b']);
+    assert.ok(claudeCode.pool!.accounts[0].cooldownUntil > Date.now());
+  });
+
+  it('throws the last rate limit error when every account is limited', async () => {
+    const { fetch, calls } = await createFetch({ a: 'rate-limited', b: 'rate-limited' });
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, accounts: [createStore('a'), createStore('b')] });
+
+    await assert.rejects(claudeCode('sonnet').doStream(userPrompt('Say hello')), error => {
+      assert.ok(APICallError.isInstance(error));
+      assert.equal(error.statusCode, 429);
+      return true;
+    });
+    assert.deepEqual(calls, ['a', 'b']);
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { LanguageModelV2CallOptions, LanguageModelV2StreamPart } from '@ai-sdk/provider-v2';
+
+import { createClaudeCode } from '../src/index.js';
+import { RECORDINGS_DIR, weatherTool } from './helpers.js';
+
+const claudeCode = createClaudeCode({ logger: 'silent', recording: { mode: 'replay', dir: RECORDINGS_DIR } });
+
+const callOptions = (text: string, options: Partial<LanguageModelV2CallOptions> = {}): LanguageModelV2CallOptions => ({
+  prompt: [{ role: 'user', content: [{ type: 'text', text }] }],
+  maxOutputTokens: 1024,
+  ...options,
+});
+
+async function streamParts(modelOptions: Parameters<typeof claudeCode.languageModelV2>[1], options: LanguageModelV2CallOptions) {
+  const { stream } = await claudeCode.languageModelV2('sonnet', modelOptions).doStream(options);
+  const parts: LanguageModelV2StreamPart[] = [];
+  for await (const part of stream as unknown as AsyncIterable<LanguageModelV2StreamPart>) {
+    parts.push(part);
+  }
+  return parts;
+}
+
+// Part types with the block id they belong to, for checking the framing
+const framing = (parts: LanguageModelV2StreamPart[]) =>
+  parts.map(part => ('id' in part && part.type !== 'response-metadata' ? `${part.type}:${part.id}` : part.type));
+
+describe('LanguageModelV2 doStream', () => {
+  it('frames text between text-start and text-end', async () => {
+    const parts = await streamParts({}, callOptions('Say hello'));
+
+    assert.deepEqual(framing(parts), [
+      'stream-start',
+      'response-metadata',
+      'text-start:0',
+      'text-delta:0',
+      'text-delta:0',
+      'text-delta:0',
+      'text-end:0',
+      'finish',
+    ]);
+    const finish = parts.at(-1);
+    assert.equal(finish?.type, 'finish');
+    assert.equal(finish.finishReason, 'stop');
+    assert.deepEqual(finish.usage, { inputTokens: 12, outputTokens: 11, totalTokens: 23, cachedInputTokens: 0 });
+  });
+
+  it('closes the reasoning block with its signature before the text block opens', async () => {
+    const parts = await streamParts({ thinking: { budgetTokens: 1024 } }, callOptions('What is 17 * 23?'));
+
+    assert.deepEqual(framing(parts), [
+      'stream-start',
+      'response-metadata',
+      'reasoning-start:0',
+      'reasoning-delta:0',
+      'reasoning-delta:0',
+      'reasoning-delta:0',
+      'reasoning-end:0',
+      'text-start:1',
+      'text-delta:1',
+      'text-end:1',
+      'finish',
+    ]);
+    const deltas = parts.filter(part => part.type === 'reasoning-delta');
+    assert.deepEqual(deltas.at(-1), {
+      type: 'reasoning-delta',
+      id: '0',
+      delta: '',
+      providerMetadata: { anthropic: { signature: 'synthetic-signature' } },
+    });
+  });
+
+  it('frames tool input by tool call id and ends it before the tool call', async () => {
+    const parts = await streamParts({}, callOptions('Weather in Paris?', {
+      tools: [{ type: 'function', name: weatherTool.name, description: weatherTool.description, inputSchema: weatherTool.parameters }],
+    }));
+
+    assert.deepEqual(framing(parts), [
+      'stream-start',
+      'response-metadata',
+      'text-start:0',
+      'text-delta:0',
+      'text-end:0',
+      'tool-input-start:toolu_01',
+      'tool-input-delta:toolu_01',
+      'tool-input-delta:toolu_01',
+      'tool-input-end:toolu_01',
+      'tool-call',
+      'finish',
+    ]);
+    assert.deepEqual(parts.find(part => part.type === 'tool-call'), {
+      type: 'tool-call',
+      toolCallId: 'toolu_01',
+      toolName: 'weather',
+      input: '{"city": "Paris"}',
+    });
+  });
+});
+
+describe('LanguageModelV2 doGenerate', () => {
+  it('returns the text as content with v2 usage', async () => {
+    const result = await claudeCode.languageModelV2('sonnet').doGenerate(callOptions('Say hello'));
+
+    assert.deepEqual(result.content, [{ type: 'text', text: 'Hello! How can I help you today?' }]);
+    assert.deepEqual(result.usage, { inputTokens: 12, outputTokens: 11, totalTokens: 23, cachedInputTokens: 0 });
+  });
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InvalidArgumentError } from '@ai-sdk/provider';
+
+import { ContextWindowExceededError, createClaudeCode } from '../src/index.js';
+import { createFakeFetch, createStore, messageResponse, userPrompt } from './helpers.js';
+
+const createProvider = (fetch: typeof globalThis.fetch) =>
+  createClaudeCode({ logger: 'silent', fetch, credentials: createStore('token') });
+
+describe('max_tokens', () => {
+  it("defaults to the model's output limit from the catalog", async () => {
+    const { fetch, requests } = createFakeFetch();
+    const claudeCode = createProvider(fetch);
+
+    await claudeCode('sonnet').doGenerate(userPrompt('Hi', { maxTokens: undefined }));
+    await claudeCode('claude-3-5-haiku-20241022').doGenerate(userPrompt('Hi', { maxTokens: undefined }));
+
+    assert.deepEqual(requests.map(request => request.body.max_tokens), [64_000, 8192]);
+  });
+
+  it('defaults to 4096 for models missing from the catalog', async () => {
+    const { fetch, requests } = createFakeFetch();
+    await createProvider(fetch)('claude-future-model').doGenerate(userPrompt('Hi', { maxTokens: undefined }));
+
+    assert.equal(requests[0].body.max_tokens, 4096);
+  });
+
+  it('prefers the call option over the model setting', async () => {
+    const { fetch, requests } = createFakeFetch();
+    const model = createProvider(fetch)('sonnet', { maxTokens: 2000 });
+
+    await model.doGenerate(userPrompt('Hi', { maxTokens: undefined }));
+    await model.doGenerate(userPrompt('Hi', { maxTokens: 100 }));
+
+    assert.deepEqual(requests.map(request => request.body.max_tokens), [2000, 100]);
+  });
+
+  it('throws InvalidArgumentError above the output limit', async () => {
+    const { fetch, requests } = createFakeFetch();
+
+    await assert.rejects(createProvider(fetch)('claude-3-haiku-20240307').doGenerate(userPrompt('Hi', { maxTokens: 5000 })), error => {
+      assert.ok(InvalidArgumentError.isInstance(error));
+      assert.equal(error.argument, 'maxTokens');
+      return true;
+    });
+    assert.equal(requests.length, 0);
+  });
+
+  it('keeps max_tokens plus the thinking budget within the output limit', async () => {
+    const { fetch, requests } = createFakeFetch();
+    const claudeCode = createProvider(fetch);
+
+    await claudeCode('sonnet', { thinking: { budgetTokens: 2000 } }).doGenerate(userPrompt('Hi', { maxTokens: undefined }));
+    await claudeCode('sonnet', { thinking: { budgetTokens: 2000 } }).doGenerate(userPrompt('Hi', { maxTokens: 1000 }));
+
+    assert.deepEqual(requests.map(request => request.body.max_tokens), [64_000, 3000]);
+  });
+});
+
+describe('contextWindowPreflight', () => {
+  // Answers count_tokens with the given input size
+  const createPreflightFetch = (inputTokens: number) => createFakeFetch(request =>
+    request.url.endsWith('/count_tokens') ? Response.json({ input_tokens: inputTokens }) : messageResponse());
+
+  it("'clamp' lowers max_tokens to what fits the context window and warns", async () => {
+    const { fetch, requests } = createPreflightFetch(190_000);
+    const model = createProvider(fetch)('sonnet', { contextWindowPreflight: 'clamp' });
+
+    const result = await model.doGenerate(userPrompt('Hi', { maxTokens: 20_000 }));
+
+    assert.equal(requests.length, 2);
+    assert.ok(requests[0].url.endsWith('/messages/count_tokens'));
+    assert.equal(requests[0].body.max_tokens, undefined);
+    assert.equal(requests[1].body.max_tokens, 10_000);
+    assert.ok(result.warnings?.some(warning => warning.type === 'other' && warning.message.includes('lowered from 20000 to 10000')));
+  });
+
+  it("'clamp' lowers a max_tokens above the output limit to the limit", async () => {
+    const { fetch, requests } = createPreflightFetch(100);
+    await createProvider(fetch)('claude-3-haiku-20240307', { contextWindowPreflight: 'clamp' })
+      .doGenerate(userPrompt('Hi', { maxTokens: 5000 }));
+
+    assert.equal(requests[1].body.max_tokens, 4096);
+  });
+
+  it("'clamp' leaves a max_tokens that fits alone", async () => {
+    const { fetch, requests } = createPreflightFetch(100);
+    const result = await createProvider(fetch)('sonnet', { contextWindowPreflight: 'clamp' })
+      .doGenerate(userPrompt('Hi', { maxTokens: 1000 }));
+
+    assert.equal(requests[1].body.max_tokens, 1000);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it("'error' throws ContextWindowExceededError before sending", async () => {
+    const { fetch, requests } = createPreflightFetch(190_000);
+    const model = createProvider(fetch)('sonnet', { contextWindowPreflight: 'error' });
+
+    await assert.rejects(model.doStream(userPrompt('Hi', { maxTokens: 20_000 })), error => {
+      assert.ok(ContextWindowExceededError.isInstance(error));
+      assert.equal(error.inputTokens, 190_000);
+      assert.equal(error.maxTokens, 20_000);
+      assert.equal(error.contextWindow, 200_000);
+      assert.equal(error.maxOutputTokens, 64_000);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+
+  it("'error' reports a max_tokens above the output limit with the typed error", async () => {
+    const { fetch } = createPreflightFetch(100);
+    const model = createProvider(fetch)('claude-3-haiku-20240307', { contextWindowPreflight: 'error' });
+
+    await assert.rejects(model.doGenerate(userPrompt('Hi', { maxTokens: 5000 })), error => {
+      assert.ok(ContextWindowExceededError.isInstance(error));
+      assert.equal(error.maxTokens, 5000);
+      assert.equal(error.maxOutputTokens, 4096);
+      return true;
+    });
+  });
+
+  it('throws for a prompt over the context window, even when clamping', async () => {
+    const { fetch } = createPreflightFetch(200_000);
+    const model = createProvider(fetch)('sonnet', { contextWindowPreflight: 'clamp' });
+
+    await assert.rejects(model.doGenerate(userPrompt('Hi')), error => {
+      assert.ok(ContextWindowExceededError.isInstance(error));
+      assert.match(error.message, /over the 200000 token context window/);
+      return true;
+    });
+  });
+});
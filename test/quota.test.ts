@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createClaudeCode, createMemoryCredentialStore, parseQuotaHeaders, QuotaTracker, type QuotaSnapshot } from '../src/index.js';
+import { createCredentials, createFakeFetch, messageResponse, userPrompt } from './helpers.js';
+
+const SUBSCRIPTION_HEADERS = {
+  'anthropic-ratelimit-unified-status': 'allowed_warning',
+  'anthropic-ratelimit-unified-reset': '1760000000',
+  'anthropic-ratelimit-unified-representative-claim': 'five_hour',
+  'anthropic-ratelimit-unified-fallback-percentage': '0.5',
+  'anthropic-ratelimit-unified-5h-status': 'allowed_warning',
+  'anthropic-ratelimit-unified-5h-reset': '1760000000',
+  'anthropic-ratelimit-unified-5h-utilization': '0.92',
+  'anthropic-ratelimit-unified-7d-status': 'allowed',
+  'anthropic-ratelimit-unified-7d-utilization': '0.3',
+};
+
+describe('parseQuotaHeaders', () => {
+  it('returns undefined without rate-limit headers', () => {
+    assert.equal(parseQuotaHeaders({ 'content-type': 'application/json' }), undefined);
+  });
+
+  it('parses the classic per-minute windows', () => {
+    const snapshot = parseQuotaHeaders({
+      'anthropic-ratelimit-requests-limit': '50',
+      'anthropic-ratelimit-requests-remaining': '49',
+      'anthropic-ratelimit-requests-reset': '2025-10-01T12:00:00Z',
+      'anthropic-ratelimit-output-tokens-remaining': '0',
+      'retry-after': '12',
+    });
+
+    assert.deepEqual(snapshot?.requests, { limit: 50, remaining: 49, resetsAt: Date.parse('2025-10-01T12:00:00Z') });
+    assert.deepEqual(snapshot?.outputTokens, { limit: undefined, remaining: 0, resetsAt: undefined });
+    assert.equal(snapshot?.tokens, undefined);
+    assert.equal(snapshot?.retryAfterSeconds, 12);
+    assert.equal(snapshot?.subscription, undefined);
+  });
+
+  it('parses the unified subscription windows and takes the plan from the credentials', () => {
+    const snapshot = parseQuotaHeaders(SUBSCRIPTION_HEADERS, createCredentials('token'));
+
+    assert.deepEqual(snapshot?.subscription, {
+      status: 'allowed_warning',
+      resetsAt: 1_760_000_000_000,
+      representativeClaim: 'five_hour',
+      fallbackPercentage: 0.5,
+      windows: {
+        '5h': { status: 'allowed_warning', resetsAt: 1_760_000_000_000, utilization: 0.92 },
+        '7d': { status: 'allowed', utilization: 0.3 },
+      },
+    });
+    assert.equal(snapshot?.subscriptionType, 'max');
+    assert.equal(snapshot?.rateLimitTier, null);
+  });
+
+  it('ignores values that are not numbers', () => {
+    const snapshot = parseQuotaHeaders({ 'anthropic-ratelimit-tokens-remaining': 'lots', 'retry-after': '' });
+    assert.equal(snapshot?.tokens, undefined);
+    assert.equal(snapshot?.retryAfterSeconds, undefined);
+  });
+});
+
+describe('QuotaTracker', () => {
+  it('keeps the latest snapshot and survives a failing callback', () => {
+    const logged: string[] = [];
+    const logger = { debug() {}, info() {}, warn: (message: string) => logged.push(message), error() {} };
+    const tracker = new QuotaTracker(() => {
+      throw new Error('callback failed');
+    }, logger);
+
+    assert.equal(tracker.get(), null);
+    assert.equal(tracker.update({}), undefined);
+
+    const snapshot = tracker.update({ 'retry-after': '5' });
+    assert.equal(tracker.get(), snapshot);
+    assert.deepEqual(logged, ['onRateLimit callback failed']);
+  });
+});
+
+describe('provider quota', () => {
+  it('reports the snapshot of each response in getQuotaStatus, onRateLimit and provider metadata', async () => {
+    const { fetch } = createFakeFetch(() => messageResponse(undefined, undefined, { headers: SUBSCRIPTION_HEADERS }));
+    const snapshots: QuotaSnapshot[] = [];
+    const claudeCode = createClaudeCode({
+      logger: 'silent',
+      fetch,
+      credentials: createMemoryCredentialStore(createCredentials('token')),
+      onRateLimit: snapshot => snapshots.push(snapshot),
+    });
+
+    assert.equal(claudeCode.getQuotaStatus(), null);
+    const result = await claudeCode('sonnet').doGenerate(userPrompt('Hi'));
+
+    const quota = claudeCode.getQuotaStatus();
+    assert.equal(quota?.subscription?.windows['5h'].utilization, 0.92);
+    assert.deepEqual(snapshots, [quota]);
+    assert.deepEqual(result.providerMetadata?.anthropic.quota, quota);
+  });
+});
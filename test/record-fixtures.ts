@@ -0,0 +1,109 @@
+/**
+ * Writes the recordings in test/recordings that the tests replay.
+ *
+ * They are synthetic: the calls the tests make are recorded against a stand-in for
+ * the Messages API, so IDs, signatures and usage are made up. Run with
+ * `npm run test:fixtures` after changing a recorded call.
+ */
+
+import { readdir, rm } from 'fs/promises';
+import { join } from 'path';
+
+import { createClaudeCode } from '../src/index.js';
+import { createStore, readStream, RECORDINGS_DIR, sseBody, userPrompt, weatherTool } from './helpers.js';
+
+type StreamEvent = Record<string, unknown> & { type: string };
+
+const MODEL = 'claude-sonnet-4-5-20250929';
+const USAGE = { input_tokens: 12, output_tokens: 1, cache_creation_input_tokens: 0, cache_read_input_tokens: 0 };
+
+const messageStart = (id: string): StreamEvent => ({
+  type: 'message_start',
+  message: { id, type: 'message', role: 'assistant', model: MODEL, content: [], stop_reason: null, stop_sequence: null, usage: USAGE },
+});
+
+const messageStop = (stopReason: string, outputTokens: number): StreamEvent[] => [
+  { type: 'message_delta', delta: { stop_reason: stopReason, stop_sequence: null }, usage: { output_tokens: outputTokens } },
+  { type: 'message_stop' },
+];
+
+const textBlock = (index: number, deltas: string[]): StreamEvent[] => [
+  { type: 'content_block_start', index, content_block: { type: 'text', text: '' } },
+  ...deltas.map(text => ({ type: 'content_block_delta', index, delta: { type: 'text_delta', text } })),
+  { type: 'content_block_stop', index },
+];
+
+// Streamed responses by prompt
+const STREAMS: Record<string, StreamEvent[]> = {
+  'Say hello': [
+    messageStart('msg_stream_text'),
+    { type: 'ping' },
+    ...textBlock(0, ['Hello!', ' How can I help', ' you today?']),
+    ...messageStop('end_turn', 11),
+  ],
+  'What is 17 * 23?': [
+    messageStart('msg_stream_thinking'),
+    { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '', signature: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: '17 * 23 = 17 * 20 + 17 * 3' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: ' = 340 + 51 = 391.' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'synthetic-signature' } },
+    { type: 'content_block_stop', index: 0 },
+    ...textBlock(1, ['17 * 23 = 391']),
+    ...messageStop('end_turn', 40),
+  ],
+  'Weather in Paris?': [
+    messageStart('msg_stream_tool'),
+    ...textBlock(0, ['Let me check.']),
+    { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_01', name: 'weather', input: {} } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city": ' } },
+    { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+    { type: 'content_block_stop', index: 1 },
+    ...messageStop('tool_use', 30),
+  ],
+};
+
+// Non-streamed responses by prompt
+const MESSAGES: Record<string, Record<string, unknown>> = {
+  'Say hello': {
+    id: 'msg_generate_text',
+    type: 'message',
+    role: 'assistant',
+    model: MODEL,
+    content: [{ type: 'text', text: 'Hello! How can I help you today?' }],
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { ...USAGE, output_tokens: 11 },
+  },
+};
+
+const standInFetch = async (_url: string | URL | Request, init?: RequestInit) => {
+  const body = JSON.parse(String(init?.body)) as { stream?: boolean; messages: Array<{ content: string }> };
+  const prompt = body.messages[0].content;
+
+  if (body.stream) {
+    return new Response(sseBody(STREAMS[prompt]), {
+      headers: { 'content-type': 'text/event-stream', 'request-id': 'req_synthetic' },
+    });
+  }
+  return Response.json(MESSAGES[prompt], { headers: { 'request-id': 'req_synthetic' } });
+};
+
+for (const file of await readdir(RECORDINGS_DIR)) {
+  if (file.endsWith('.json')) await rm(join(RECORDINGS_DIR, file));
+}
+
+const claudeCode = createClaudeCode({
+  logger: 'silent',
+  fetch: standInFetch as typeof fetch,
+  credentials: createStore('synthetic'),
+  recording: { mode: 'record', dir: RECORDINGS_DIR },
+});
+
+// Streams are saved once they've been read to the end
+await readStream((await claudeCode('sonnet').doStream(userPrompt('Say hello'))).stream);
+await readStream((await claudeCode('sonnet', { thinking: { budgetTokens: 1024 } }).doStream(userPrompt('What is 17 * 23?'))).stream);
+await readStream((await claudeCode('sonnet').doStream(userPrompt('Weather in Paris?', {
+  mode: { type: 'regular', tools: [weatherTool] },
+}))).stream);
+await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { after, before, describe, it } from 'node:test';
+
+import { APICallError, createClaudeCode, RecordingMismatchError } from '../src/index.js';
+import type { ClaudeCodeRecording } from '../src/recording.js';
+import { createStore, readStream, RECORDINGS_DIR, sseBody, userPrompt } from './helpers.js';
+
+const textOf = (parts: Awaited<ReturnType<typeof readStream>>) =>
+  parts.flatMap(part => (part.type === 'text-delta' ? [part.textDelta] : [])).join('');
+
+describe('replay', () => {
+  // No credentials or network access needed
+  const claudeCode = createClaudeCode({ logger: 'silent', recording: { mode: 'replay', dir: RECORDINGS_DIR } });
+
+  it('replays a recorded stream', async () => {
+    const { stream } = await claudeCode('sonnet').doStream(userPrompt('Say hello'));
+    assert.equal(textOf(await readStream(stream)), 'Hello! How can I help you today?');
+  });
+
+  it('replays a recorded response', async () => {
+    const result = await claudeCode('sonnet').doGenerate(userPrompt('Say hello'));
+    assert.equal(result.text, 'Hello! How can I help you today?');
+    assert.equal(result.rawResponse?.headers?.['request-id'], 'req_synthetic');
+  });
+
+  it('throws RecordingMismatchError with a diff against the closest recording', async () => {
+    await assert.rejects(claudeCode('sonnet').doGenerate(userPrompt('Say goodbye')), error => {
+      assert.ok(RecordingMismatchError.isInstance(error));
+      assert.deepEqual(error.diff, ['- messages[0].content: "Say hello"', '+ messages[0].content: "Say goodbye"']);
+      assert.ok(error.closestRecording?.startsWith(RECORDINGS_DIR));
+      return true;
+    });
+  });
+});
+
+describe('record', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'claude-code-oauth-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  const events = [
+    { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5-20250929', usage: { input_tokens: 3, output_tokens: 1 } } },
+    { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+    { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Recorded' } },
+    { type: 'content_block_stop', index: 0 },
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+    { type: 'message_stop' },
+  ];
+
+  it('saves a stream once it is read, without credentials, and replays it', async () => {
+    const fakeFetch = async () => new Response(sseBody(events), {
+      headers: { 'content-type': 'text/event-stream', 'content-length': '1' },
+    });
+    const recorder = createClaudeCode({
+      logger: 'silent',
+      fetch: fakeFetch as typeof fetch,
+      credentials: createStore('secret-token'),
+      recording: { mode: 'record', dir },
+    });
+
+    assert.equal(textOf(await readStream((await recorder('sonnet').doStream(userPrompt('Record me'))).stream)), 'Recorded');
+
+    const [file] = await readdir(dir);
+    const text = await readFile(join(dir, file), 'utf8');
+    assert.ok(!text.includes('secret-token'));
+    const recording = JSON.parse(text) as ClaudeCodeRecording;
+    assert.equal(recording.response.events?.length, events.length);
+    assert.deepEqual(recording.response.headers, { 'content-type': 'text/event-stream' });
+
+    const replayer = createClaudeCode({ logger: 'silent', recording: { mode: 'replay', dir } });
+    assert.equal(textOf(await readStream((await replayer('sonnet').doStream(userPrompt('Record me'))).stream)), 'Recorded');
+  });
+
+  it('saves API errors and throws them again on replay', async () => {
+    const fakeFetch = async () => Response.json(
+      { type: 'error', error: { type: 'invalid_request_error', message: 'Bad request' } },
+      { status: 400 },
+    );
+    const recorder = createClaudeCode({
+      logger: 'silent',
+      fetch: fakeFetch as typeof fetch,
+      credentials: createStore('token'),
+      recording: { mode: 'record', dir },
+    });
+    const replayer = createClaudeCode({ logger: 'silent', recording: { mode: 'replay', dir } });
+
+    for (const claudeCode of [recorder, replayer]) {
+      await assert.rejects(claudeCode('sonnet').doGenerate(userPrompt('Fail')), error => {
+        assert.ok(APICallError.isInstance(error));
+        assert.equal(error.statusCode, 400);
+        assert.match(error.message, /Bad request/);
+        return true;
+      });
+    }
+  });
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SSEDecoder } from '../src/sse.js';
+
+describe('SSEDecoder', () => {
+  it('decodes events with their type and data', () => {
+    const decoder = new SSEDecoder();
+    assert.deepEqual(decoder.push('event: ping\ndata: {"type":"ping"}\n\ndata: plain\n\n'), [
+      { event: 'ping', data: '{"type":"ping"}' },
+      { event: 'message', data: 'plain' },
+    ]);
+  });
+
+  it('completes events split across chunks', () => {
+    const decoder = new SSEDecoder();
+    assert.deepEqual(decoder.push('event: message_st'), []);
+    assert.deepEqual(decoder.push('art\ndata: {"a"'), []);
+    assert.deepEqual(decoder.push(':1}\n'), []);
+    assert.deepEqual(decoder.push('\n'), [{ event: 'message_start', data: '{"a":1}' }]);
+  });
+
+  it('accepts CRLF and CR line endings, including a CRLF split across chunks', () => {
+    const decoder = new SSEDecoder();
+    assert.deepEqual(decoder.push('data: a\r\n\r\ndata: b\r\r'), [
+      { event: 'message', data: 'a' },
+      { event: 'message', data: 'b' },
+    ]);
+    assert.deepEqual(decoder.push('data: c\r'), []);
+    assert.deepEqual(decoder.push('\n\r\n'), [{ event: 'message', data: 'c' }]);
+  });
+
+  it('joins multi-line data and skips comments', () => {
+    const decoder = new SSEDecoder();
+    assert.deepEqual(decoder.push(': keep-alive\ndata: line 1\ndata:line 2\nid: 7\n\n'), [
+      { event: 'message', data: 'line 1\nline 2', id: '7' },
+    ]);
+  });
+
+  it('dispatches an unterminated final event on flush', () => {
+    const decoder = new SSEDecoder();
+    assert.deepEqual(decoder.push('event: error\ndata: {"x":1}'), []);
+    assert.deepEqual(decoder.flush(), [{ event: 'error', data: '{"x":1}' }]);
+    assert.deepEqual(decoder.flush(), []);
+  });
+});
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { APICallError, createClaudeCode } from '../src/index.js';
+import {
+  chunkedResponse,
+  createFakeFetch,
+  createStore,
+  readRecording,
+  readStream,
+  RECORDINGS_DIR,
+  sseBody,
+  userPrompt,
+  weatherTool,
+} from './helpers.js';
+
+const textOf = (parts: Awaited<ReturnType<typeof readStream>>) =>
+  parts.flatMap(part => (part.type === 'text-delta' ? [part.textDelta] : [])).join('');
+
+describe('doStream', () => {
+  const claudeCode = createClaudeCode({ logger: 'silent', recording: { mode: 'replay', dir: RECORDINGS_DIR } });
+
+  it('streams text deltas, then the finish with usage', async () => {
+    const parts = await readStream((await claudeCode('sonnet').doStream(userPrompt('Say hello'))).stream);
+
+    assert.deepEqual(parts[0], { type: 'response-metadata', id: 'msg_stream_text', modelId: 'claude-sonnet-4-5-20250929' });
+    assert.equal(textOf(parts), 'Hello! How can I help you today?');
+
+    const finish = parts.at(-1);
+    assert.equal(finish?.type, 'finish');
+    assert.equal(finish.finishReason, 'stop');
+    assert.deepEqual(finish.usage, { promptTokens: 12, completionTokens: 11 });
+  });
+
+  it('streams thinking as reasoning with its signature before the text', async () => {
+    const model = claudeCode('sonnet', { thinking: { budgetTokens: 1024 } });
+    const parts = await readStream((await model.doStream(userPrompt('What is 17 * 23?'))).stream);
+
+    const types = parts.map(part => part.type).filter(type => type !== 'response-metadata');
+    assert.deepEqual([...new Set(types)], ['reasoning', 'reasoning-signature', 'text-delta', 'finish']);
+
+    const reasoning = parts.flatMap(part => (part.type === 'reasoning' ? [part.textDelta] : [])).join('');
+    assert.equal(reasoning, '17 * 23 = 17 * 20 + 17 * 3 = 340 + 51 = 391.');
+    assert.deepEqual(parts.find(part => part.type === 'reasoning-signature'), {
+      type: 'reasoning-signature',
+      signature: 'synthetic-signature',
+    });
+  });
+
+  it('streams tool input deltas and the complete tool call', async () => {
+    const parts = await readStream((await claudeCode('sonnet').doStream(userPrompt('Weather in Paris?', {
+      mode: { type: 'regular', tools: [weatherTool] },
+    }))).stream);
+
+    const deltas = parts.filter(part => part.type === 'tool-call-delta');
+    assert.ok(deltas.length > 1);
+    assert.ok(deltas.every(delta => delta.toolCallId === 'toolu_01' && delta.toolName === 'weather'));
+    assert.equal(deltas.map(delta => delta.argsTextDelta).join(''), '{"city": "Paris"}');
+
+    assert.deepEqual(parts.find(part => part.type === 'tool-call'), {
+      type: 'tool-call',
+      toolCallType: 'function',
+      toolCallId: 'toolu_01',
+      toolName: 'weather',
+      args: '{"city": "Paris"}',
+    });
+    const finish = parts.at(-1);
+    assert.equal(finish?.type, 'finish');
+    assert.equal(finish.finishReason, 'tool-calls');
+  });
+});
+
+describe('stream transformer', () => {
+  const streamFrom = async (respond: () => Response) => {
+    const { fetch } = createFakeFetch(respond);
+    const claudeCode = createClaudeCode({ logger: 'silent', fetch, credentials: createStore('token') });
+    return (await claudeCode('sonnet').doStream(userPrompt('Say hello'))).stream;
+  };
+  const recordedBody = async () => (await readRecording('msg_stream_text')).response.events!.join('');
+
+  it('decodes events split across network chunks', async () => {
+    const body = await recordedBody();
+    const parts = await readStream(await streamFrom(() => chunkedResponse(body, 7)));
+
+    assert.equal(textOf(parts), 'Hello! How can I help you today?');
+    assert.equal(parts.at(-1)?.type, 'finish');
+  });
+
+  it('turns an error event into an error part and an error finish', async () => {
+    const parts = await readStream(await streamFrom(() => new Response(sseBody([
+      { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5-20250929', usage: { input_tokens: 5 } } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ]))));
+
+    const error = parts.find(part => part.type === 'error');
+    assert.ok(error && APICallError.isInstance(error.error));
+    assert.equal(error.error.isRetryable, true);
+    assert.deepEqual(error.error.data, { type: 'overloaded_error', message: 'Overloaded' });
+
+    const finish = parts.at(-1);
+    assert.equal(finish?.type, 'finish');
+    assert.equal(finish.finishReason, 'error');
+    assert.deepEqual(finish.usage, { promptTokens: 5, completionTokens: 0 });
+  });
+
+  it('reports a stream that ends before message_stop', async () => {
+    const body = await recordedBody();
+    const parts = await readStream(await streamFrom(() => new Response(body.slice(0, body.indexOf('event: message_delta')))));
+
+    const error = parts.find(part => part.type === 'error');
+    assert.match(String((error as { error: Error }).error.message), /ended before message_stop/);
+    assert.equal(parts.at(-1)?.type, 'finish');
+  });
+
+  it('cancels the upstream body when the consumer cancels', async () => {
+    const encoder = new TextEncoder();
+    let cancelReason: unknown;
+    const body = await recordedBody();
+    const stream = await streamFrom(() => new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        // The first events, then an upstream that never ends
+        controller.enqueue(encoder.encode(body.slice(0, body.indexOf('event: content_block_delta'))));
+      },
+      cancel(reason) {
+        cancelReason = reason;
+      },
+    })));
+
+    const reader = stream.getReader();
+    assert.equal((await reader.read()).value?.type, 'response-metadata');
+    await reader.cancel('done reading');
+
+    assert.equal(cancelReason, 'done reading');
+  });
+});
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { LanguageModelV1ProviderDefinedTool } from '@ai-sdk/provider';
+
+import { createClaudeCode } from '../src/index.js';
+import { claudeCodeTools, prepareProviderTool } from '../src/tools.js';
+import { createFakeFetch, createStore, messageResponse, userPrompt } from './helpers.js';
+
+const createProvider = (fetch: typeof globalThis.fetch) =>
+  createClaudeCode({ logger: 'silent', fetch, credentials: createStore('token') });
+
+// A provider tool as the AI SDK passes it to the model, registered under `name`
+function asModelTool(name: string, tool: { id: `anthropic.${string}`; args: Record<string, unknown> }) {
+  return { type: 'provider-defined', name, id: tool.id, args: tool.args } satisfies LanguageModelV1ProviderDefinedTool;
+}
+
+describe('prepareProviderTool', () => {
+  it('maps web search options to the API names', () => {
+    const tool = claudeCodeTools.webSearch_20250305({
+      maxUses: 3,
+      allowedDomains: ['example.com'],
+      userLocation: { city: 'Paris', country: 'FR' },
+    });
+
+    assert.deepEqual(prepareProviderTool(tool.id, tool.args), {
+      tool: {
+        type: 'web_search_20250305',
+        name: 'web_search',
+        max_uses: 3,
+        allowed_domains: ['example.com'],
+        blocked_domains: undefined,
+        user_location: { type: 'approximate', city: 'Paris', country: 'FR' },
+      },
+      beta: undefined,
+    });
+  });
+
+  it('maps the computer display size and needs the computer use beta', () => {
+    const tool = claudeCodeTools.computer_20250124({ displayWidthPx: 1280, displayHeightPx: 800 });
+
+    assert.deepEqual(prepareProviderTool(tool.id, tool.args), {
+      tool: {
+        type: 'computer_20250124',
+        name: 'computer',
+        display_width_px: 1280,
+        display_height_px: 800,
+        display_number: undefined,
+      },
+      beta: 'computer-use-2025-01-24',
+    });
+  });
+
+  it('gives each client and server tool its API type, name and beta', () => {
+    const tools = [
+      claudeCodeTools.codeExecution_20250522(),
+      claudeCodeTools.bash_20250124(),
+      claudeCodeTools.textEditor_20250124(),
+      claudeCodeTools.textEditor_20250429(),
+    ];
+
+    assert.deepEqual(tools.map(tool => prepareProviderTool(tool.id, tool.args)), [
+      { tool: { type: 'code_execution_20250522', name: 'code_execution' }, beta: 'code-execution-2025-05-22' },
+      { tool: { type: 'bash_20250124', name: 'bash' }, beta: 'computer-use-2025-01-24' },
+      { tool: { type: 'text_editor_20250124', name: 'str_replace_editor' }, beta: 'computer-use-2025-01-24' },
+      { tool: { type: 'text_editor_20250429', name: 'str_replace_based_edit_tool' }, beta: undefined },
+    ]);
+  });
+
+  it('returns undefined for unknown tool IDs', () => {
+    assert.equal(prepareProviderTool('anthropic.unknown_20990101', {}), undefined);
+  });
+});
+
+describe('provider tools in requests', () => {
+  it('sends provider tools beside function tools with their betas', async () => {
+    const { fetch, requests } = createFakeFetch();
+
+    await createProvider(fetch)('sonnet').doGenerate(userPrompt('Hi', {
+      mode: {
+        type: 'regular',
+        tools: [
+          { type: 'function', name: 'lookup', description: 'Look up a word', parameters: { type: 'object' } },
+          asModelTool('bash', claudeCodeTools.bash_20250124()),
+        ],
+      },
+    }));
+
+    assert.deepEqual(requests[0].body.tools, [
+      { name: 'lookup', description: 'Look up a word', input_schema: { type: 'object' } },
+      { type: 'bash_20250124', name: 'bash' },
+    ]);
+    assert.match(requests[0].headers.get('anthropic-beta') ?? '', /computer-use-2025-01-24/);
+  });
+
+  it('warns about and leaves out unknown provider tools', async () => {
+    const { fetch, requests } = createFakeFetch();
+    const unknown = asModelTool('mystery', { id: 'anthropic.mystery_20990101', args: {} });
+
+    const result = await createProvider(fetch)('sonnet').doGenerate(userPrompt('Hi', {
+      mode: { type: 'regular', tools: [unknown, asModelTool('web_search', claudeCodeTools.webSearch_20250305())] },
+    }));
+
+    assert.deepEqual(requests[0].body.tools.map((tool: { name: string }) => tool.name), ['web_search']);
+    assert.deepEqual(result.warnings, [
+      { type: 'unsupported-tool', tool: unknown, details: 'Unknown provider-defined tool anthropic.mystery_20990101' },
+    ]);
+  });
+
+  it('turns web search results into sources', async () => {
+    const { fetch } = createFakeFetch(() => messageResponse([
+      { type: 'server_tool_use', id: 'srvtoolu_1', name: 'web_search', input: { query: 'paris weather' } },
+      {
+        type: 'web_search_tool_result',
+        tool_use_id: 'srvtoolu_1',
+        content: [{ type: 'web_search_result', url: 'https://example.com/paris', title: 'Paris', page_age: '1 day' }],
+      },
+      { type: 'text', text: 'Sunny.' },
+    ]));
+
+    const result = await createProvider(fetch)('sonnet').doGenerate(userPrompt('Weather in Paris?', {
+      mode: { type: 'regular', tools: [asModelTool('web_search', claudeCodeTools.webSearch_20250305())] },
+    }));
+
+    assert.equal(result.text, 'Sunny.');
+    assert.deepEqual(result.sources, [{
+      sourceType: 'url',
+      id: 'https://example.com/paris',
+      url: 'https://example.com/paris',
+      title: 'Paris',
+      providerMetadata: { anthropic: { pageAge: '1 day' } },
+    }]);
+  });
+});
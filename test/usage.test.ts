@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  createClaudeCode,
+  createMemoryUsageSink,
+  UsageBudgetExceededError,
+  UsageLedger,
+  type ClaudeCodeUsageBudget,
+  type ClaudeCodeUsageRecord,
+} from '../src/index.js';
+import { createFakeFetch, createStore, userPrompt } from './helpers.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function usageRecord(overrides: Partial<ClaudeCodeUsageRecord> = {}): ClaudeCodeUsageRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    model: 'claude-sonnet-4-5-20250929',
+    inputTokens: 10,
+    outputTokens: 5,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    durationMs: 100,
+    finishReason: 'stop',
+    ...overrides,
+  };
+}
+
+function createProvider(records: ClaudeCodeUsageRecord[], budgets?: ClaudeCodeUsageBudget[]) {
+  const { fetch, requests } = createFakeFetch();
+  const claudeCode = createClaudeCode({
+    logger: 'silent',
+    fetch,
+    credentials: createStore('token'),
+    usage: { sink: createMemoryUsageSink(records), budgets },
+  });
+  return { claudeCode, requests };
+}
+
+describe('usage budgets', () => {
+  it('records each call with its tokens and API-price cost', async () => {
+    const records: ClaudeCodeUsageRecord[] = [];
+    const { claudeCode } = createProvider(records);
+
+    await claudeCode('sonnet', { usageTag: 'chat' }).doGenerate(userPrompt('Hi'));
+
+    assert.equal(records.length, 1);
+    assert.equal(records[0].model, 'claude-sonnet-4-5-20250929');
+    assert.equal(records[0].tag, 'chat');
+    assert.equal(records[0].finishReason, 'stop');
+    assert.deepEqual([records[0].inputTokens, records[0].outputTokens], [10, 5]);
+    // $3 per million input and $15 per million output tokens
+    assert.equal(records[0].costUsd, (10 * 3 + 5 * 15) / 1_000_000);
+  });
+
+  it('refuses calls once the daily budget is used up, without sending them', async () => {
+    const { claudeCode, requests } = createProvider([], [{ maxTokens: 20 }]);
+    const model = claudeCode('sonnet');
+
+    await model.doGenerate(userPrompt('Hi'));
+    await model.doGenerate(userPrompt('Hi'));
+    await assert.rejects(model.doGenerate(userPrompt('Hi')), error => {
+      assert.ok(UsageBudgetExceededError.isInstance(error));
+      assert.equal(error.usedTokens, 30);
+      assert.equal(error.maxTokens, 20);
+      assert.equal(error.period, 'day');
+      return true;
+    });
+    await assert.rejects(model.doStream(userPrompt('Hi')), error => UsageBudgetExceededError.isInstance(error));
+
+    assert.equal(requests.length, 2);
+  });
+
+  it('limits only calls with the tag of a tagged budget', async () => {
+    const { claudeCode, requests } = createProvider(
+      [usageRecord({ tag: 'batch', inputTokens: 1000 }), usageRecord({ tag: 'chat', inputTokens: 1000 })],
+      [{ tag: 'batch', maxTokens: 500 }],
+    );
+
+    await assert.rejects(
+      claudeCode('sonnet', { usageTag: 'batch' }).doGenerate(userPrompt('Hi')),
+      error => UsageBudgetExceededError.isInstance(error) && error.tag === 'batch' && error.usedTokens === 1005,
+    );
+    await claudeCode('sonnet', { usageTag: 'chat' }).doGenerate(userPrompt('Hi'));
+    await claudeCode('sonnet').doGenerate(userPrompt('Hi', { providerMetadata: { anthropic: { usageTag: 'chat' } } }));
+
+    assert.equal(requests.length, 2);
+  });
+
+  it("counts only today's usage for daily budgets and all of it for 'all'", async () => {
+    const yesterday = new Date(Date.now() - DAY_MS).toISOString();
+    const records = [usageRecord({ timestamp: yesterday, inputTokens: 1000 })];
+
+    const daily = new UsageLedger({ sink: createMemoryUsageSink([...records]), budgets: [{ maxTokens: 500 }] });
+    const overall = new UsageLedger({
+      sink: createMemoryUsageSink([...records]),
+      budgets: [{ maxTokens: 500, period: 'all' }],
+    });
+
+    await daily.checkBudget();
+    await assert.rejects(overall.checkBudget(), error => UsageBudgetExceededError.isInstance(error) && error.period === 'all');
+  });
+});
+
+describe('usage summary', () => {
+  const records = [
+    usageRecord({ timestamp: '2026-03-01T10:00:00.000Z', tag: 'chat', outputTokens: 90, cacheReadInputTokens: 100 }),
+    usageRecord({ timestamp: '2026-03-01T12:00:00.000Z', tag: 'chat', model: 'claude-future-model' }),
+    usageRecord({ timestamp: '2026-03-02T09:00:00.000Z', inputTokens: 40, costUsd: 0.5 }),
+  ];
+
+  it('adds up tokens, duration and cost, leaving out calls without a price', async () => {
+    const ledger = new UsageLedger({ sink: createMemoryUsageSink([
+      { ...records[0], costUsd: 0.25 },
+      records[1],
+      records[2],
+    ]) });
+
+    assert.deepEqual(await ledger.getSummary(), {
+      calls: 3,
+      inputTokens: 60,
+      outputTokens: 100,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 100,
+      totalTokens: 260,
+      costUsd: 0.75,
+      durationMs: 300,
+    });
+  });
+
+  it('groups by model, tag or day, largest first', async () => {
+    const ledger = new UsageLedger({ sink: createMemoryUsageSink([...records]) });
+
+    const byTag = await ledger.getSummary({ groupBy: 'tag' });
+    assert.deepEqual(byTag.groups?.map(group => [group.key, group.calls, group.totalTokens]), [['chat', 2, 215], ['', 1, 45]]);
+
+    const byModel = await ledger.getSummary({ groupBy: 'model' });
+    assert.deepEqual(byModel.groups?.map(group => group.key), ['claude-sonnet-4-5-20250929', 'claude-future-model']);
+
+    const byDay = await ledger.getSummary({ groupBy: 'day' });
+    assert.deepEqual(byDay.groups?.map(group => [group.key, group.calls]), [['2026-03-01', 2], ['2026-03-02', 1]]);
+  });
+
+  it('counts calls from since up to but not including until', async () => {
+    const ledger = new UsageLedger({ sink: createMemoryUsageSink([...records]) });
+
+    const summary = await ledger.getSummary({
+      since: new Date('2026-03-01T12:00:00Z'),
+      until: Date.parse('2026-03-02T09:00:00Z'),
+    });
+
+    assert.equal(summary.calls, 1);
+    assert.equal(summary.totalTokens, 15);
+  });
+
+  it('is available from the provider once usage is on', async () => {
+    const { claudeCode } = createProvider([...records]);
+    assert.equal((await claudeCode.getUsageSummary()).calls, 3);
+
+    const withoutUsage = createClaudeCode({ logger: 'silent', credentials: createStore('token') });
+    await assert.rejects(withoutUsage.getUsageSummary(), /Usage recording is off/);
+  });
+});